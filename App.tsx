@@ -1,5 +1,28 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { DataConnection, MediaConnection, PeerInstance, NetworkMessage, LogEntry, ChatMessage, DeviceInfo, RemotePeer, ActivityMessage, DrawLine, QueueItem } from './types';
+import { DataConnection, MediaConnection, PeerInstance, NetworkMessage, LogEntry, ChatMessage, ChatActionMessage, DeviceInfo, RemotePeer, RoomInfo, RoomInfoMessage, JoinDeniedMessage, VideoLayer, SignalingSettings, PeerStats, ConnectionQuality, AudioSettings, CameraSettings, VideoSendSettings, ScreenHint, ActivityMessage, Stroke, StrokePoint, BoardShape, BoardFrame, BoardPage, RemoteCursor, WhiteboardTool, WhiteboardOp, WhiteboardEntry, QueueItem, FileOfferMessage, FileTransferMessage, TransferProgress, FileAttachment } from './types';
+import { PROTOCOL_VERSION, HANDSHAKE_TIMEOUT_MS, MAX_NAME_LENGTH, MAX_CHAT_LENGTH, MAX_CHAT_SYNC_BATCH, toSyncableChatMessages, encodeMessage, validateMessage, validateBoardFile } from './protocol';
+import { renderMarkdown, findUrls } from './markdown';
+import { loadSignalingSettings, loadSavedSignalingSettings, hasUrlSignaling, saveSignalingSettings, toPeerOptions, describeSignaling, parseIceServers, formatIceServers } from './signaling';
+import { MAX_CHAT_SYNC, CHAT_REACTIONS, PENDING_ACTION_TTL_MS, mergeChatHistory, applyChatAction, toSharedChatMessage, loadRoomHistory, saveChatMessages } from './chatStore';
+import { ROOM_LOOKUP_TIMEOUT_MS, ROOM_ANCHOR_RETRY_MS, MAX_ROOM_NAME_LENGTH, createRoom, roomAnchorId, buildInviteLink, parseRoomInput, readInviteRoom, setRoomInUrl } from './rooms';
+import { Membership, EMPTY_MEMBERSHIP, ADMISSION_TIMEOUT_MS, founderMembership, electLeader, isMember, isFull, joinedAt, addMember, removeMember, diffMembers } from './membership';
+import { SendAdaptation, INITIAL_ADAPTATION, MAX_SEND_LEVEL, VIDEO_CODECS, MAX_BITRATE_PRESETS, chooseLayer, findVideoSender, applyLayer, applyScreenSending, adaptSending, canPreferCodec, preferCodec, loadVideoSendSettings, saveVideoSendSettings } from './videoQuality';
+import { AudioMixer, canSelectOutput, createMixer, connectChannel, removeChannel, setChannelVolume, setChannelPan, setMasterVolume, setOutputDevice, panForRect } from './audioMixer';
+import { CAMERA_RESOLUTIONS, CAMERA_FRAME_RATES, loadCameraSettings, saveCameraSettings, cameraFormat, cameraConstraints } from './camera';
+import { LayoutMode, StageTile, SPEAKER_HOLD_MS, screenKey, listTiles, arrangeStage } from './stageLayout';
+import { Recording, RecordingScene, RecordingTile, canRecord, startRecording, stopRecording, setRecordingMic, paintScene, formatDuration } from './recorder';
+import { StatsSample, STATS_INTERVAL_MS, summarizeStats, diagnosticsDump } from './callStats';
+import { MicChain, SPEAKING_LEVEL, loadAudioSettings, saveAudioSettings, micConstraints, captureChanged, formatKeyCode, createMicChain, routeMicChain, closeMicChain, createLevelAnalyser, readLevel, updateGate } from './audioProcessing';
+import {
+    MAX_OP_ITEMS, MAX_STROKE_POINTS, MAX_BOARD_TEXT, RESYNC_INTERVAL_MS, WhiteboardDoc, UndoEntry, createWhiteboardDoc, createEntry, receiveEntries,
+    missingEntries, batchEntries, getObject, getStroke, undoOps, splitIdOps, visibleObjects, patchOf, frameOf, isLineKind, normalizeFrame, clampFrame,
+    objectBounds, hitTest, loadBoardImage, fontSizeFor, NOTE_PADDING, drawStroke, drawShape, renderPage,
+    BoardView, DEFAULT_VIEW, clampView, toBoard, toScreen, zoomAt, viewportOf, fitFrame, renderMinimap,
+    FIRST_PAGE_ID, orderedPages, positionBetween, copyObjectOps,
+} from './whiteboard';
+import { pageToSvg, pagesToPdf, boardToFile, fileToOps } from './boardExport';
+import { PeerLink, ICE_RESTART_GRACE_MS, MAX_RECONNECT_ATTEMPTS, createLink, clearLinkTimers, reconnectDelay, isRedialer } from './reconnect';
+import { OutgoingTransfer, IncomingTransfer, TRANSFER_WINDOW, MAX_TRANSFER_SIZE, PROGRESS_INTERVAL_MS, transferKey, countChunks, expectedChunkSize, readChunk, isFinished, receiveChunk, assembleFile, discardFile, createHasher, hashBlob, formatBytes } from './fileTransfer';
 
 // --- Assets & Constants ---
 const SOUND_RINGTONE = "/ringtone.mp3"; 
@@ -10,19 +33,61 @@ const SOUND_UI_ON = "https://cdn.pixabay.com/download/audio/2022/03/24/audio_c8c
 const SOUND_UI_OFF = "https://cdn.pixabay.com/download/audio/2022/03/24/audio_1020476839.mp3"; // Click/Off
 const SOUND_ENTER_ROOM = "https://cdn.pixabay.com/download/audio/2022/03/15/audio_762635987a.mp3"; // Space swoosh
 
-const MAX_PEERS_LIMIT = 4; 
+const MAX_PEERS_LIMIT = 10; 
+const WB_TOOLS: { id: WhiteboardTool; icon: string; label: string }[] = [
+    { id: 'select', icon: 'fa-arrow-pointer', label: 'Sélection' },
+    { id: 'pen', icon: 'fa-pen', label: 'Crayon' },
+    { id: 'eraser', icon: 'fa-eraser', label: 'Gomme' },
+    { id: 'line', icon: 'fa-minus', label: 'Ligne' },
+    { id: 'arrow', icon: 'fa-arrow-right-long', label: 'Flèche' },
+    { id: 'rect', icon: 'fa-square', label: 'Rectangle' },
+    { id: 'ellipse', icon: 'fa-circle', label: 'Ellipse' },
+    { id: 'text', icon: 'fa-font', label: 'Texte' },
+    { id: 'note', icon: 'fa-note-sticky', label: 'Note' },
+];
 const WB_COLORS = [
     '#000000', '#57534e', '#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981', 
     '#06b6d4', '#3b82f6', '#6366f1', '#8b5cf6', '#d946ef', '#f43f5e', '#881337'
 ];
+// Whiteboard sizes are world units, i.e. CSS pixels at 100% zoom
+const BOARD_HIT_TOLERANCE = 8; // Screen pixels, divided by the zoom
+const BOARD_IMAGE_WIDTH = 320;
+const MIN_SHAPE_SIZE = 10;
+const MINIMAP_INTERVAL_MS = 250;
+const THUMBNAIL_INTERVAL_MS = 500;
+const CURSOR_INTERVAL_MS = 50;
+const CURSOR_TIMEOUT_MS = 10000; // A cursor that stops moving for this long is hidden
 
-// --- WebRTC Constraints for CPU/Bandwidth Optimization ---
-const VIDEO_CONSTRAINTS_CAM = {
-    width: { ideal: 1280, max: 1920 },
-    height: { ideal: 720, max: 1080 },
-    frameRate: { ideal: 30, max: 30 }
+// Each peer keeps the same cursor colour on every screen
+const cursorColor = (peerId: string) => {
+    let hash = 0;
+    for (const c of peerId) hash = (hash * 31 + c.charCodeAt(0)) | 0;
+    return WB_COLORS[2 + Math.abs(hash) % (WB_COLORS.length - 2)]; // Skips black and grey
+};
+
+const LAYOUT_MODES: { id: LayoutMode; icon: string; label: string }[] = [
+    { id: 'auto', icon: 'fa-wand-magic-sparkles', label: 'Automatique' },
+    { id: 'speaker', icon: 'fa-user', label: 'Intervenant' },
+    { id: 'side-by-side', icon: 'fa-table-columns', label: 'Côte à côte' },
+    { id: 'grid', icon: 'fa-table-cells-large', label: 'Grille' },
+];
+
+const QUALITY_STYLES: Record<ConnectionQuality, { color: string; label: string }> = {
+    good: { color: 'text-emerald-400', label: 'Bonne connexion' },
+    fair: { color: 'text-amber-400', label: 'Connexion moyenne' },
+    poor: { color: 'text-red-400', label: 'Mauvaise connexion' },
+    unknown: { color: 'text-slate-500', label: 'Qualité inconnue' },
 };
 
+const AUDIO_TOGGLES: { key: 'noiseSuppression' | 'echoCancellation' | 'autoGainControl' | 'noiseGate' | 'compressor'; label: string }[] = [
+    { key: 'noiseSuppression', label: 'Suppression du bruit' },
+    { key: 'echoCancellation', label: "Annulation d'écho" },
+    { key: 'autoGainControl', label: 'Gain automatique' },
+    { key: 'noiseGate', label: 'Porte de bruit' },
+    { key: 'compressor', label: 'Compresseur' },
+];
+
+// --- WebRTC Constraints for CPU/Bandwidth Optimization ---
 const VIDEO_CONSTRAINTS_SCREEN = {
     width: { ideal: 1920 },
     height: { ideal: 1080 },
@@ -73,9 +138,20 @@ export default function App() {
   const [peerId, setPeerId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
+
+  // --- Signaling ---
+  const [signaling, setSignaling] = useState<SignalingSettings>(loadSignalingSettings);
+  const [signalingFromUrl, setSignalingFromUrl] = useState(hasUrlSignaling); // The invite link chose the server for this session
+  const [showNetworkSettings, setShowNetworkSettings] = useState(false);
+  const [signalingDraft, setSignalingDraft] = useState<SignalingSettings>(signaling);
+  const [iceDraft, setIceDraft] = useState(() => formatIceServers(signaling.iceServers));
   
   // --- Room Configuration ---
   const [remoteIdInput, setRemoteIdInput] = useState('');
+  const [roomNameInput, setRoomNameInput] = useState('');
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [membership, setMembership] = useState<Membership>(EMPTY_MEMBERSHIP);
+  const [inviteRoomId, setInviteRoomId] = useState<string | null>(readInviteRoom); // From a ?room= link, joined right after login
   const [roomCapacity, setRoomCapacity] = useState(4); 
   const [peers, setPeers] = useState<Map<string, RemotePeer>>(new Map());
   const [incomingCall, setIncomingCall] = useState<{ call: MediaConnection, metadata?: any } | null>(null);
@@ -88,15 +164,28 @@ export default function App() {
   const [isDeafened, setIsDeafened] = useState(false);
   const [isVideoEnabled, setIsVideoEnabled] = useState(false);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [screenHint, setScreenHint] = useState<ScreenHint>('detail');
+  const [shareScreenAudio, setShareScreenAudio] = useState(true);
+  const [showShareMenu, setShowShareMenu] = useState(false);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [showRecordMenu, setShowRecordMenu] = useState(false);
+  const [peerStats, setPeerStats] = useState<Map<string, PeerStats>>(new Map());
+  const [statsPeerId, setStatsPeerId] = useState<string | null>(null); // Tile showing the diagnostics overlay
   const [myCurrentActivity, setMyCurrentActivity] = useState<'none' | 'youtube' | 'whiteboard'>('none');
   
   // --- Audio Settings ---
   const [inputDevices, setInputDevices] = useState<DeviceInfo[]>([]);
   const [outputDevices, setOutputDevices] = useState<DeviceInfo[]>([]);
+  const [videoDevices, setVideoDevices] = useState<DeviceInfo[]>([]);
   const [selectedMicId, setSelectedMicId] = useState<string>('');
-  const [selectedCamId, setSelectedCamId] = useState<string>('');
-  const [selectedSpeakerId, setSelectedSpeakerId] = useState<string>('');
   const [micGain, setMicGain] = useState(1); 
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [isBindingPushToTalk, setIsBindingPushToTalk] = useState(false);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameraPreview, setCameraPreview] = useState<MediaStream | null>(null); // Settings preview while our camera is off
+  const [videoSendSettings, setVideoSendSettings] = useState<VideoSendSettings>(loadVideoSendSettings);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showMobileChat, setShowMobileChat] = useState(false);
 
@@ -112,7 +201,20 @@ export default function App() {
   const myActivityRef = useRef(myCurrentActivity);
   const localAvatarRef = useRef<string | null>(null);
   const peersRef = useRef<Map<string, RemotePeer>>(new Map());
-  const roomCapacityRef = useRef(roomCapacity);
+  const roomRef = useRef<RoomInfo | null>(null);
+  const anchorRef = useRef<PeerInstance | null>(null); // Set while we hold the room's anchor ID
+  const roomLookupRef = useRef<string | null>(null); // Peer we're asking which room it is in
+  const membershipRef = useRef<Membership>(EMPTY_MEMBERSHIP);
+  const pendingCallsRef = useRef<Map<string, MediaConnection>>(new Map()); // Calls held until the leader admits the caller
+  const handshakesRef = useRef<Set<string>>(new Set()); // Peers whose protocol version we accepted
+  const linksRef = useRef<Map<string, PeerLink>>(new Map()); // Current connections + reconnect state per peer
+  const processedStreamRef = useRef<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const screenCallsRef = useRef<Map<string, MediaConnection>>(new Map()); // Our outgoing screen calls, per peer
+  const recordingRef = useRef<Recording | null>(null);
+  const statsSamplesRef = useRef<Map<string, StatsSample>>(new Map());
+  const statsReportsRef = useRef<Map<string, RTCStatsReport>>(new Map()); // Latest raw report per peer, for the dump
+  const recordingSceneRef = useRef<() => RecordingScene | null>(() => null); // Latest layout, for the recorder's timer
 
   // Sync refs
   useEffect(() => { isMutedRef.current = isMuted; }, [isMuted]);
@@ -121,11 +223,27 @@ export default function App() {
   useEffect(() => { isScreenSharingRef.current = isScreenSharing; }, [isScreenSharing]);
   useEffect(() => { displayNameRef.current = displayName; }, [displayName]);
   useEffect(() => { peersRef.current = peers; }, [peers]);
-  useEffect(() => { roomCapacityRef.current = roomCapacity; }, [roomCapacity]);
   useEffect(() => { myActivityRef.current = myCurrentActivity; }, [myCurrentActivity]);
+  useEffect(() => { processedStreamRef.current = processedStream; }, [processedStream]);
+
+  // --- Adaptive Video ---
+  const requestedLayersRef = useRef<Map<string, VideoLayer>>(new Map()); // What each peer asked us to send them
+  const sentLayersRef = useRef<Map<string, VideoLayer>>(new Map()); // What we last asked each peer to send us
+  const [videoOffPeers, setVideoOffPeers] = useState<Set<string>>(new Set()); // Asked for 'off': their tile shows the avatar, not a frozen frame
+  const sendAdaptationRef = useRef<Map<string, SendAdaptation>>(new Map()); // How each peer's link is holding up, from the stats polls
+  const [isPageVisible, setIsPageVisible] = useState(!document.hidden);
+  useEffect(() => {
+      const onChange = () => setIsPageVisible(!document.hidden);
+      document.addEventListener('visibilitychange', onChange);
+      return () => document.removeEventListener('visibilitychange', onChange);
+  }, []);
 
   // --- UI State ---
-  const [pinnedView, setPinnedView] = useState<'local' | 'activity' | string | null>(null); 
+  const [pinnedView, setPinnedView] = useState<'activity' | null>(null); // The activity panel covers the call
+  const [pinnedTiles, setPinnedTiles] = useState<string[]>([]); // Tile keys, see stageLayout.ts
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('auto');
+  const [activeSpeaker, setActiveSpeaker] = useState<string | null>(null);
+  const speakerSinceRef = useRef(0);
   
   // --- Activity State (SHARED & LOCAL) ---
   const [activityView, setActivityView] = useState<{ type: 'youtube' | 'whiteboard' } | null>(null);
@@ -139,12 +257,55 @@ export default function App() {
   // Whiteboard State
   const [wbColor, setWbColor] = useState('#000000');
   const [wbSize, setWbSize] = useState(3);
-  const [wbIsEraser, setWbIsEraser] = useState(false);
-  const [wbPageIndex, setWbPageIndex] = useState(0);
-  const wbHistoryRef = useRef<Map<number, DrawLine[]>>(new Map());
-  // Whiteboard Throttling
-  const wbDrawingQueueRef = useRef<DrawLine[]>([]);
-  const wbLastSentRef = useRef<number>(0);
+  const [wbTool, setWbTool] = useState<WhiteboardTool>('pen');
+  const [wbPageId, setWbPageId] = useState(FIRST_PAGE_ID);
+  const wbPageIdRef = useRef(wbPageId);
+  const wbDocRef = useRef<WhiteboardDoc>(createWhiteboardDoc());
+  const [wbPages, setWbPages] = useState<BoardPage[]>(() => orderedPages(wbDocRef.current));
+  const wbPagesRef = useRef<BoardPage[]>(wbPages);
+  // Shared: our page changes go to everyone and theirs move us. Free: we browse on our own.
+  const [wbPageMode, setWbPageMode] = useState<'shared' | 'free'>('shared');
+  const wbPageModeRef = useRef(wbPageMode);
+  const wbPresenterPageRef = useRef<string | null>(null); // Last page someone moved the room to
+  const [wbSidebarOpen, setWbSidebarOpen] = useState(true);
+  const wbThumbsRef = useRef<Map<string, HTMLCanvasElement>>(new Map()); // Page ID -> its thumbnail
+  const wbThumbsDirtyRef = useRef<Set<string>>(new Set());
+  const wbThumbsDrawnAtRef = useRef(0);
+  const wbDragPageRef = useRef<string | null>(null);
+  const wbReplicaRef = useRef<string>(crypto.randomUUID());
+  const wbResyncAtRef = useRef<Map<string, number>>(new Map()); // Peer ID -> last catch-up request
+  // Our own strokes and clears, undone and redone on every peer
+  const wbUndoRef = useRef<UndoEntry[]>([]);
+  const wbRedoRef = useRef<UndoEntry[]>([]);
+  const [wbStackSizes, setWbStackSizes] = useState({ undo: 0, redo: 0 });
+  // Whiteboard Throttling: the stroke being drawn and how many of its points went out
+  const wbActiveStrokeRef = useRef<Stroke | null>(null);
+  const wbSentPointsRef = useRef(0);
+  // Shape being drawn, or object being moved/resized with its frame before the drag
+  const wbGestureRef = useRef<
+      | { mode: 'draw'; shape: BoardShape }
+      | { mode: 'move' | 'resize'; id: string; start: { x: number; y: number }; before: BoardFrame }
+      | null
+  >(null);
+  const [wbSelection, setWbSelection] = useState<{ id: string; bounds: BoardFrame; handle: { x: number; y: number } | null } | null>(null);
+  const [wbEditor, setWbEditor] = useState<{ shape: BoardShape; isNew: boolean; text: string } | null>(null);
+  const wbImageInputRef = useRef<HTMLInputElement>(null);
+  const wbBoardInputRef = useRef<HTMLInputElement>(null);
+  const [wbExportOpen, setWbExportOpen] = useState(false);
+  // Local zoom/pan, plus the touch points driving a two-finger pinch
+  const [wbView, setWbView] = useState<BoardView>(DEFAULT_VIEW);
+  const wbViewRef = useRef<BoardView>(DEFAULT_VIEW);
+  const wbTouchesRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const wbPinchRef = useRef<{ view: BoardView; mid: { x: number; y: number }; distance: number } | null>(null);
+  const wbMinimapRef = useRef<HTMLCanvasElement | null>(null);
+  const wbMinimapViewRef = useRef<BoardView | null>(null); // How the minimap was last drawn
+  const wbMinimapDirtyRef = useRef(false);
+  const wbMinimapDrawnAtRef = useRef(0);
+  // Live cursors: ours goes out from the sync interval, theirs come in through the activity channel
+  const wbCursorOutRef = useRef<{ cursor: { x: number; y: number } | null; sentAt: number; dirty: boolean }>({ cursor: null, sentAt: 0, dirty: false });
+  const [wbRemoteCursors, setWbRemoteCursors] = useState<Map<string, RemoteCursor>>(new Map());
+  const [wbFollowing, setWbFollowing] = useState<string | null>(null); // Peer whose viewport we mirror
+  const wbFollowingRef = useRef<string | null>(null);
 
   // YouTube Refs
   const playerRef = useRef<any>(null); 
@@ -157,6 +318,14 @@ export default function App() {
   // --- Chat & Logs ---
   const [messageInput, setMessageInput] = useState('');
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const chatHistoryRef = useRef<ChatMessage[]>([]);
+  const pendingChatActionsRef = useRef<Map<string, { actorId: string; action: ChatActionMessage; at: number }[]>>(new Map()); // Keyed by messageId
+  const roomIdRef = useRef<string | null>(null); // Chat history is stored per room
+  const lamportRef = useRef(0);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [transfers, setTransfers] = useState<Map<string, TransferProgress>>(new Map());
   const [logs, setLogs] = useState<LogEntry[]>([]);
 
   // --- Core Refs ---
@@ -168,8 +337,21 @@ export default function App() {
 
   // Audio Processing Refs
   const localAudioCtxRef = useRef<AudioContext | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
-  const peerAnalysersRef = useRef<Map<string, AnalyserNode>>(new Map());
+  const micChainRef = useRef<MicChain | null>(null);
+  const audioSettingsRef = useRef(audioSettings);
+  const cameraSettingsRef = useRef(cameraSettings);
+  const videoSendSettingsRef = useRef(videoSendSettings);
+  const pushToTalkRef = useRef(false); // Push-to-talk key currently held
+  const localSpeakingRef = useRef(false);
+  const micMeterRef = useRef<HTMLDivElement>(null); // Settings meter bar, updated outside React
+  const mixerRef = useRef<AudioMixer | null>(null); // Remote audio; channels keyed by peer ID
+
+  // File Transfer Refs
+  const outgoingFilesRef = useRef<Map<string, { file: File, offer: FileOfferMessage }>>(new Map());
+  const outgoingTransfersRef = useRef<Map<string, OutgoingTransfer>>(new Map()); // Keyed by transferKey()
+  const incomingTransfersRef = useRef<Map<string, IncomingTransfer>>(new Map()); // Keyed by transferId
+  const progressUpdatesRef = useRef<Map<string, TransferProgress>>(new Map()); // Waiting for the next flush
+  const progressTimerRef = useRef(0);
 
   // --- Effects ---
   useEffect(() => {
@@ -178,35 +360,22 @@ export default function App() {
 
   // Whiteboard Page Redraw Effect
   useEffect(() => {
-      if (activityView?.type === 'whiteboard' && canvasRef.current) {
-          const ctx = canvasRef.current.getContext('2d');
-          if (ctx) {
-              ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-              const history = wbHistoryRef.current.get(wbPageIndex) || [];
-              history.forEach(line => drawOnCanvas(line, canvasRef.current!));
-          }
-      }
-  }, [wbPageIndex, activityView]);
+      wbPageIdRef.current = wbPageId;
+      setWbSelection(null);
+      if (activityView?.type === 'whiteboard') redrawWhiteboard();
+      wbCursorOutRef.current.dirty = true;
+  }, [wbPageId, activityView]);
 
   // Whiteboard Sync Interval (Throttling)
   useEffect(() => {
       const interval = setInterval(() => {
-          if (wbDrawingQueueRef.current.length > 0) {
-              const batch = [...wbDrawingQueueRef.current];
-              wbDrawingQueueRef.current = []; // Clear queue
-              
-              // Broadcast the batch
-              broadcastData({ 
-                  type: 'activity', 
-                  activityType: 'whiteboard', 
-                  action: 'draw-batch', 
-                  data: { drawBatch: batch, pageIndex: wbPageIndex } 
-              });
-          }
-      }, 25); // 40fps sync rate
-
+          flushActiveStroke(); // 40fps sync rate
+          flushBoardCursor();
+          refreshMinimap();
+          refreshThumbnails();
+      }, 25);
       return () => clearInterval(interval);
-  }, [wbPageIndex]);
+  }, []);
 
   useEffect(() => {
     const handleClick = () => setContextMenu(null);
@@ -216,41 +385,36 @@ export default function App() {
 
   // --- AUDIO ENGINE ---
 
-  const setupAudioGraph = (stream: MediaStream): MediaStream => {
-      if (!stream.getAudioTracks().length) return stream;
-
+  // One context for both directions: our mic chain and the remote mixer
+  const getAudioContext = () => {
       const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
       if (!localAudioCtxRef.current) localAudioCtxRef.current = new AudioContext();
       const ctx = localAudioCtxRef.current;
       if(ctx.state === 'suspended') ctx.resume();
+      return ctx;
+  };
 
-      const source = ctx.createMediaStreamSource(stream);
-      const gainNode = ctx.createGain();
-      gainNode.gain.value = micGain;
-      gainNodeRef.current = gainNode;
-
-      const dest = ctx.createMediaStreamDestination();
-
-      source.connect(gainNode);
-      gainNode.connect(dest);
-
-      // Add local analyzer
-      const analyser = ctx.createAnalyser();
-      analyser.fftSize = 256;
-      gainNode.connect(analyser);
-
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-      const checkVolume = () => {
-          analyser.getByteFrequencyData(dataArray);
-          let sum = 0;
-          for (let i = 0; i < dataArray.length; i++) sum += dataArray[i];
-          const average = sum / dataArray.length;
-          setIsLocalSpeaking(average > 10);
-          requestAnimationFrame(checkVolume);
-      };
-      checkVolume();
+  const getMixer = () => {
+      if (!mixerRef.current) {
+          const mixer = createMixer(getAudioContext());
+          mixerRef.current = mixer;
+          setMasterVolume(mixer, audioSettingsRef.current.masterVolume, isDeafenedRef.current);
+          if (audioSettingsRef.current.outputDeviceId) setOutputDevice(mixer, audioSettingsRef.current.outputDeviceId);
+      }
+      return mixerRef.current;
+  };
+
+  const setupAudioGraph = (stream: MediaStream): MediaStream => {
+      if (!stream.getAudioTracks().length) return stream;
+
+      const ctx = getAudioContext();
 
-      const newStream = dest.stream;
+      // The analysis loop below picks the new chain up through the ref
+      if (micChainRef.current) closeMicChain(micChainRef.current);
+      const chain = createMicChain(ctx, stream, audioSettingsRef.current, micGain);
+      micChainRef.current = chain;
+
+      const newStream = chain.destination.stream;
       stream.getVideoTracks().forEach(track => newStream.addTrack(track));
       setProcessedStream(newStream);
       return newStream;
@@ -261,24 +425,29 @@ export default function App() {
           const devices = await navigator.mediaDevices.enumerateDevices();
           setInputDevices(devices.filter(d => d.kind === 'audioinput').map(d => ({ deviceId: d.deviceId, label: d.label || `Microphone` })));
           setOutputDevices(devices.filter(d => d.kind === 'audiooutput').map(d => ({ deviceId: d.deviceId, label: d.label || `Speaker` })));
-      } catch (e) { console.error("Error loading devices", e); }
+          setVideoDevices(devices.filter(d => d.kind === 'videoinput').map(d => ({ deviceId: d.deviceId, label: d.label || `Caméra` })));
+          return devices;
+      } catch (e) { console.error("Error loading devices", e); return []; }
   };
 
-  const changeAudioInput = async (deviceId: string) => {
-      setSelectedMicId(deviceId);
+  // Re-opens the microphone (another device, or different browser processing) and swaps
+  // the new track into every call
+  const restartMicrophone = async (deviceId: string, settings: AudioSettings) => {
       try {
           if(!localStream) return;
           const newStream = await navigator.mediaDevices.getUserMedia({ 
-              audio: { deviceId: { exact: deviceId } },
+              audio: micConstraints(settings, deviceId),
               video: false
           });
           
           if (localStream.getVideoTracks().length > 0) {
               newStream.addTrack(localStream.getVideoTracks()[0]);
           }
+          localStream.getAudioTracks().forEach(track => track.stop());
 
           setLocalStream(newStream);
           const processed = setupAudioGraph(newStream);
+          processed.getAudioTracks()[0].enabled = !isMutedRef.current;
           
           peersRef.current.forEach(peer => {
              if (peer.mediaCall && peer.mediaCall.peerConnection) {
@@ -289,8 +458,124 @@ export default function App() {
       } catch (e) { addLog("Erreur changement micro", "error"); }
   };
 
+  const changeAudioInput = (deviceId: string) => {
+      setSelectedMicId(deviceId);
+      restartMicrophone(deviceId, audioSettingsRef.current);
+  };
+
+  const updateAudioSettings = (patch: Partial<AudioSettings>) => {
+      const previous = audioSettingsRef.current;
+      const next = { ...previous, ...patch };
+      audioSettingsRef.current = next;
+      setAudioSettings(next);
+      saveAudioSettings(next);
+      if (micChainRef.current && next.compressor !== previous.compressor) routeMicChain(micChainRef.current, next);
+      if (captureChanged(previous, next)) restartMicrophone(selectedMicId, next);
+      if (next.outputDeviceId !== previous.outputDeviceId) {
+          setOutputDevice(getMixer(), next.outputDeviceId).then(ok => { if (!ok) addLog("Impossible de changer la sortie audio", "error"); });
+      }
+  };
+
+  useEffect(() => {
+      if (mixerRef.current) setMasterVolume(mixerRef.current, audioSettings.masterVolume, isDeafened);
+  }, [audioSettings.masterVolume, isDeafened]);
+
+  useEffect(() => {
+      const mixer = mixerRef.current;
+      if (mixer) peers.forEach(peer => {
+          setChannelVolume(mixer, peer.id, peer.volume);
+          setChannelVolume(mixer, screenKey(peer.id), peer.volume);
+      });
+  }, [peers]);
+
+  // Pan each peer towards where their tile sits. Layout changes with nearly every render
+  // (pins, activities, people joining), so this just runs after each one.
+  const updatePanning = () => {
+      const mixer = mixerRef.current;
+      if (!mixer) return;
+      const placed = new Set<string>();
+      document.querySelectorAll<HTMLElement>('[data-audio-peer]').forEach(el => {
+          const id = el.dataset.audioPeer!;
+          placed.add(id);
+          setChannelPan(mixer, id, panForRect(el.getBoundingClientRect()));
+      });
+      mixer.channels.forEach((_, id) => { if (!placed.has(id)) setChannelPan(mixer, id, 0); });
+  };
+  useEffect(updatePanning);
+  useEffect(() => {
+      window.addEventListener('resize', updatePanning);
+      return () => window.removeEventListener('resize', updatePanning);
+  }, []);
+
+  // Local level: drives the settings meter, the gate (voice activity / push-to-talk /
+  // noise gate) and our own speaking ring
+  useEffect(() => {
+      let frame = 0;
+      const loop = () => {
+          const chain = micChainRef.current;
+          const ctx = localAudioCtxRef.current;
+          if (chain && ctx) {
+              const settings = audioSettingsRef.current;
+              const level = readLevel(chain.analyser);
+              const open = updateGate(chain, ctx, settings, level, {
+                  pushToTalk: pushToTalkRef.current,
+                  forceOpen: settings.inputMode === 'voice' && document.hidden,
+              });
+              if (micMeterRef.current) {
+                  micMeterRef.current.style.width = `${level * 100}%`;
+                  micMeterRef.current.style.opacity = open ? '1' : '0.35';
+              }
+              const speaking = open && !isMutedRef.current && level > SPEAKING_LEVEL;
+              if (speaking !== localSpeakingRef.current) {
+                  localSpeakingRef.current = speaking;
+                  setIsLocalSpeaking(speaking);
+              }
+          }
+          frame = requestAnimationFrame(loop);
+      };
+      frame = requestAnimationFrame(loop);
+      return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Push-to-talk: held while the key is down, ignored while typing, dropped if the
+  // window loses focus mid-press (the keyup would never arrive)
+  useEffect(() => {
+      const isTyping = (target: EventTarget | null) => target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
+      const onKeyDown = (e: KeyboardEvent) => {
+          const settings = audioSettingsRef.current;
+          if (settings.inputMode !== 'push-to-talk' || e.code !== settings.pushToTalkKey || isTyping(e.target)) return;
+          e.preventDefault();
+          pushToTalkRef.current = true;
+      };
+      const onKeyUp = (e: KeyboardEvent) => {
+          if (e.code === audioSettingsRef.current.pushToTalkKey) pushToTalkRef.current = false;
+      };
+      const release = () => { pushToTalkRef.current = false; };
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('keyup', onKeyUp);
+      window.addEventListener('blur', release);
+      return () => {
+          window.removeEventListener('keydown', onKeyDown);
+          window.removeEventListener('keyup', onKeyUp);
+          window.removeEventListener('blur', release);
+      };
+  }, []);
+
+  // Next key pressed becomes the push-to-talk key (Escape cancels)
+  useEffect(() => {
+      if (!isBindingPushToTalk) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsBindingPushToTalk(false);
+          if (e.code !== 'Escape') updateAudioSettings({ pushToTalkKey: e.code });
+      };
+      window.addEventListener('keydown', onKeyDown, true);
+      return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [isBindingPushToTalk]);
+
   useEffect(() => {
-      if (gainNodeRef.current) gainNodeRef.current.gain.value = micGain;
+      if (micChainRef.current) micChainRef.current.input.gain.value = micGain;
   }, [micGain]);
 
   // --- ACTIONS ---
@@ -319,11 +604,7 @@ export default function App() {
     // If no video track exists, create one with optimized constraints
     if (!videoTrack) {
         try {
-            const constraints = selectedCamId ? 
-                { ...VIDEO_CONSTRAINTS_CAM, deviceId: { exact: selectedCamId } } : 
-                VIDEO_CONSTRAINTS_CAM;
-
-            const videoStream = await navigator.mediaDevices.getUserMedia({ video: constraints });
+            const videoStream = await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(cameraSettings) });
             videoTrack = videoStream.getVideoTracks()[0];
             localStream.addTrack(videoTrack);
             if(processedStream) processedStream.addTrack(videoTrack);
@@ -346,80 +627,285 @@ export default function App() {
     }
   };
 
-  const restoreCamera = async () => {
+  // Settings changed mid-call. Same device: the running track is reconfigured in place.
+  // Another device: a new track replaces the old one locally and on every sender.
+  const restartCamera = async (settings: CameraSettings, deviceChanged: boolean) => {
+      const oldTrack = localStream?.getVideoTracks()[0];
+      // Never started: the next toggleVideo opens it with these settings
+      if (!localStream || !oldTrack) return;
       try {
-          const constraints = selectedCamId ? 
-              { ...VIDEO_CONSTRAINTS_CAM, deviceId: { exact: selectedCamId } } : 
-              VIDEO_CONSTRAINTS_CAM;
-              
-          // Ensure we get a fresh video stream
-          const camStream = await navigator.mediaDevices.getUserMedia({ video: constraints });
+          if (!deviceChanged) {
+              try {
+                  await oldTrack.applyConstraints(cameraFormat(settings));
+                  return;
+              } catch (e) { console.warn("Camera refused new format, reopening", e); }
+          }
+          const camStream = await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(settings) });
           const camTrack = camStream.getVideoTracks()[0];
-          
-          if(!isVideoEnabledRef.current) camTrack.enabled = false;
-
-          // Replace in local stream
-          if(localStream) {
-              const oldTracks = localStream.getVideoTracks();
-              oldTracks.forEach(t => { t.stop(); localStream.removeTrack(t); });
-              localStream.addTrack(camTrack);
+          camTrack.enabled = oldTrack.enabled;
+          oldTrack.stop();
+          localStream.removeTrack(oldTrack);
+          localStream.addTrack(camTrack);
+          if (processedStream) {
+              processedStream.getVideoTracks().forEach(t => processedStream.removeTrack(t));
+              processedStream.addTrack(camTrack);
           }
-          
-          // Replace in processed stream (what goes out)
-          if(processedStream) {
-               const oldTracks = processedStream.getVideoTracks();
-               oldTracks.forEach(t => { processedStream.removeTrack(t); });
-               processedStream.addTrack(camTrack);
+          peersRef.current.forEach(peer => findVideoSender(peer.mediaCall?.peerConnection)?.replaceTrack(camTrack));
+      } catch (e) { addLog("Impossible de changer de caméra", "error"); }
+  };
+
+  const updateCameraSettings = (patch: Partial<CameraSettings>) => {
+      const previous = cameraSettingsRef.current;
+      const next = { ...previous, ...patch };
+      cameraSettingsRef.current = next;
+      setCameraSettings(next);
+      saveCameraSettings(next);
+      const deviceChanged = next.deviceId !== previous.deviceId;
+      if (deviceChanged || next.resolution !== previous.resolution || next.frameRate !== previous.frameRate) restartCamera(next, deviceChanged);
+  };
+
+  // Plugging or unplugging something refreshes the pickers; losing the selected camera
+  // falls back to the default one
+  useEffect(() => {
+      const onDeviceChange = async () => {
+          const devices = await loadDevices();
+          const { deviceId } = cameraSettingsRef.current;
+          if (deviceId && devices.length && !devices.some(d => d.kind === 'videoinput' && d.deviceId === deviceId)) {
+              addLog("Caméra débranchée, retour à la caméra par défaut", "info");
+              updateCameraSettings({ deviceId: '' });
           }
+      };
+      navigator.mediaDevices?.addEventListener('devicechange', onDeviceChange);
+      return () => navigator.mediaDevices?.removeEventListener('devicechange', onDeviceChange);
+  }, [localStream, processedStream]);
 
-          // Replace for peers
-          peersRef.current.forEach(peer => {
-             if (peer.mediaCall && peer.mediaCall.peerConnection) {
-                 const sender = peer.mediaCall.peerConnection.getSenders().find((s: any) => s.track && s.track.kind === 'video');
-                 if (sender) sender.replaceTrack(camTrack);
-             }
-          });
+  // Settings preview: our own stream when the camera is on, otherwise a temporary capture
+  const isCameraLive = isVideoEnabled && !!localStream?.getVideoTracks().length;
+  useEffect(() => {
+      if (!showSettingsModal || isCameraLive) return;
+      let cancelled = false;
+      let stream: MediaStream | null = null;
+      navigator.mediaDevices.getUserMedia({ video: cameraConstraints(cameraSettings) })
+          .then(s => {
+              if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+              stream = s;
+              setCameraPreview(s);
+          })
+          .catch(() => setCameraPreview(null));
+      return () => {
+          cancelled = true;
+          stream?.getTracks().forEach(t => t.stop());
+          setCameraPreview(null);
+      };
+  }, [showSettingsModal, isCameraLive, cameraSettings.deviceId, cameraSettings.resolution, cameraSettings.frameRate]);
+
+  // --- SCREEN SHARING ---
+  // The screen goes out on its own MediaConnection per peer (metadata.screen), next to the
+  // camera call rather than in place of it: PeerJS can't add tracks to a running call, and
+  // the receiving side can answer without sending anything back.
+  const callWithScreen = (remoteId: string) => {
+      const stream = screenStreamRef.current;
+      if (!peerRef.current || !stream) return;
+      screenCallsRef.current.get(remoteId)?.close();
+      const call = peerRef.current.call(remoteId, stream, { metadata: { screen: true, roomId: roomRef.current?.id } });
+      screenCallsRef.current.set(remoteId, call);
+      const forget = () => { if (screenCallsRef.current.get(remoteId) === call) screenCallsRef.current.delete(remoteId); };
+      call.on('close', forget);
+      call.on('error', forget);
+      // The answer brings no stream back, so connecting is the sign negotiation is done
+      call.on('iceStateChanged', (state) => { if (state === 'connected' && screenCallsRef.current.get(remoteId) === call) applyScreenSendingFor(remoteId); });
+  };
+
+  const startScreenShare = async () => {
+      setShowShareMenu(false);
+      try {
+          const stream = await navigator.mediaDevices.getDisplayMedia({ video: VIDEO_CONSTRAINTS_SCREEN, audio: shareScreenAudio });
+          const screenTrack = stream.getVideoTracks()[0];
+          // Chrome derives the sender's degradation preference from the hint
+          screenTrack.contentHint = screenHint;
+          stream.getAudioTracks().forEach(track => { track.contentHint = 'music'; });
+          // Handle "Stop Sharing" from browser UI
+          screenTrack.onended = () => { if (screenStreamRef.current === stream) stopScreenShare(); };
+          if (shareScreenAudio && !stream.getAudioTracks().length) addLog("Le son n'a pas été partagé (non pris en charge pour cette source)", "info");
+
+          screenStreamRef.current = stream;
+          setScreenStream(stream);
+          setIsScreenSharing(true);
+          peersRef.current.forEach(peer => { if (peer.mediaCall) callWithScreen(peer.id); });
+          playSound(SOUND_UI_ON);
+          broadcastData({type:'status', videoEnabled:isVideoEnabled, muted:isMuted, deafened:isDeafened, isScreenSharing:true, currentActivity:myCurrentActivity});
+      } catch(e) { addLog("Partage annulé", "info"); }
+  };
+
+  // Also reached from the browser's own "stop sharing" button, so refs only
+  const stopScreenShare = () => {
+      const stream = screenStreamRef.current;
+      if (!stream) return;
+      screenCallsRef.current.forEach(call => call.close());
+      screenCallsRef.current.clear();
+      stream.getTracks().forEach(track => track.stop());
+      screenStreamRef.current = null;
+      setScreenStream(null);
+      setIsScreenSharing(false);
+      setPinnedTiles(prev => prev.filter(key => key !== screenKey('local')));
+      playSound(SOUND_UI_OFF);
+      broadcastData({type:'status', videoEnabled:isVideoEnabledRef.current, muted:isMutedRef.current, deafened:isDeafenedRef.current, isScreenSharing:false, currentActivity:myActivityRef.current});
+  };
+
+  const toggleScreenShare = () => {
+      if (isScreenSharing) stopScreenShare();
+      else setShowShareMenu(prev => !prev);
+  };
+
+  const changeScreenHint = (hint: ScreenHint) => {
+      setScreenHint(hint);
+      const track = screenStreamRef.current?.getVideoTracks()[0];
+      if (track) track.contentHint = hint;
+  };
+
+  const receiveScreenCall = (call: MediaConnection) => {
+      const peer = peersRef.current.get(call.peer);
+      // Only from people already in the call with us
+      if (!peer?.mediaCall || isForOtherRoom(call.metadata)) { call.close(); return; }
+      peer.screenCall?.close();
+      call.answer();
+      addPeer(call.peer, { screenCall: call });
+      call.on('stream', (stream) => {
+          if (peersRef.current.get(call.peer)?.screenCall !== call) return;
+          addPeer(call.peer, { screenStream: stream });
+          connectRemoteAudio(call.peer, stream, screenKey(call.peer));
+      });
+      call.on('close', () => dropScreen(call.peer, call));
+      call.on('error', () => dropScreen(call.peer, call));
+  };
+
+  // Their share ended: `call` is set when it's that call reporting its own end
+  const dropScreen = (id: string, call?: MediaConnection) => {
+      const peer = peersRef.current.get(id);
+      if (!peer?.screenCall || (call && peer.screenCall !== call)) return;
+      if (!call) peer.screenCall.close();
+      peersRef.current.set(id, { ...peer, screenCall: undefined, screenStream: undefined }); // Before the close event re-enters
+      addPeer(id, { screenCall: undefined, screenStream: undefined });
+      if (mixerRef.current) removeChannel(mixerRef.current, screenKey(id));
+      setPinnedTiles(prev => prev.filter(key => key !== screenKey(id)));
+  };
+
+  // --- RECORDING ---
+  const buildRecordingScene = (): RecordingScene => {
+      const layout = currentLayout();
+      const toTile = (tile: StageTile): RecordingTile => {
+          const peer = tile.peerId === 'local' ? null : peers.get(tile.peerId);
+          const name = peer ? peer.displayName : displayName;
+          return {
+              stream: (tile.screen ? (peer ? peer.screenStream : screenStream) : (peer ? peer.stream : localStream)) || undefined,
+              label: tile.screen ? `Écran de ${name}` : name,
+              initials: getInitials(name),
+              screen: tile.screen,
+              mirror: !peer && !tile.screen && cameraSettings.mirror,
+              speaking: !tile.screen && (peer ? peer.isSpeaking : isLocalSpeaking),
+          };
+      };
+      const activity = activityView && pinnedView === 'activity'
+          ? { canvas: activityView.type === 'whiteboard' ? canvasRef.current || undefined : undefined, title: activityView.type === 'youtube' ? 'YouTube Together' : 'Tableau blanc' }
+          : undefined;
+      return { stage: layout.stage.map(toTile), filmstrip: layout.filmstrip.map(toTile), activity };
+  };
+  useEffect(() => { recordingSceneRef.current = buildRecordingScene; });
+
+  useEffect(() => {
+      const rec = recordingRef.current;
+      if (rec && localAudioCtxRef.current) setRecordingMic(rec, localAudioCtxRef.current, processedStream);
+  }, [processedStream]);
+
+  useEffect(() => {
+      if (recordingSince === null) return;
+      const timer = setInterval(() => setRecordingElapsed(Math.floor((Date.now() - recordingSince) / 1000)), 1000);
+      return () => clearInterval(timer);
+  }, [recordingSince]);
 
+  const startSessionRecording = (audioOnly: boolean) => {
+      setShowRecordMenu(false);
+      if (recordingRef.current) return;
+      const mixer = getMixer();
+      try {
+          const rec = startRecording(mixer.ctx, mixer.bus, !audioOnly, r => {
+              const scene = recordingSceneRef.current();
+              if (scene) paintScene(r, scene);
+          });
+          setRecordingMic(rec, mixer.ctx, processedStreamRef.current);
+          recordingRef.current = rec;
+          setRecordingSince(rec.startedAt);
+          setRecordingElapsed(0);
+          broadcastData({ type: 'recording', active: true });
+          addLog(audioOnly ? "Enregistrement audio démarré" : "Enregistrement démarré", "success");
       } catch (e) {
-          addLog("Impossible de restaurer la caméra", "error");
+          console.error("Could not start recording", e);
+          addLog("Enregistrement impossible dans ce navigateur", "error");
       }
   };
 
-  const toggleScreenShare = async () => {
-      if (isScreenSharing) {
-          // STOP SHARING MANUALLY
-          setIsScreenSharing(false);
-          await restoreCamera();
-          playSound(SOUND_UI_OFF);
-          broadcastData({type:'status', videoEnabled:isVideoEnabled, muted:isMuted, deafened:isDeafened, isScreenSharing:false, currentActivity:myCurrentActivity});
-      } else {
-          // START SHARING
-          try {
-              const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: VIDEO_CONSTRAINTS_SCREEN, audio: false });
-              const screenTrack = screenStream.getVideoTracks()[0];
-              
-              // Handle "Stop Sharing" from browser UI
-              screenTrack.onended = () => { 
-                  if (isScreenSharingRef.current) {
-                      setIsScreenSharing(false);
-                      restoreCamera();
-                      broadcastData({type:'status', videoEnabled:isVideoEnabledRef.current, muted:isMutedRef.current, deafened:isDeafenedRef.current, isScreenSharing:false, currentActivity:myActivityRef.current});
-                  }
-              };
+  // Saves the file straight away; also called when leaving the room
+  const stopSessionRecording = async () => {
+      const rec = recordingRef.current;
+      if (!rec) return;
+      recordingRef.current = null;
+      setRecordingSince(null);
+      broadcastData({ type: 'recording', active: false });
+      const blob = await stopRecording(rec, getMixer().bus);
+      const stamp = new Date(rec.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+      downloadBlob(blob, `cosmos-${stamp}.webm`);
+      addLog(`Enregistrement sauvegardé (${formatBytes(blob.size)})`, "success");
+  };
 
-              // Replace for peers
-              peersRef.current.forEach(peer => {
-                 if (peer.mediaCall && peer.mediaCall.peerConnection) {
-                     const sender = peer.mediaCall.peerConnection.getSenders().find((s: any) => s.track && s.track.kind === 'video');
-                     if (sender) sender.replaceTrack(screenTrack);
-                 }
-             });
+  // --- CALL STATS ---
+  useEffect(() => {
+      if (viewState !== 'room') return;
+      const timer = setInterval(async () => {
+          const next = new Map<string, PeerStats>();
+          await Promise.all(Array.from(linksRef.current.entries()).map(async ([id, link]) => {
+              const pc = link.mediaCall?.peerConnection;
+              if (!pc) return;
+              try {
+                  const report = await pc.getStats();
+                  const { stats, sample } = summarizeStats(report, statsSamplesRef.current.get(id));
+                  statsSamplesRef.current.set(id, sample);
+                  statsReportsRef.current.set(id, report);
+                  next.set(id, { ...stats, sendLevel: adaptVideoFor(id, stats) });
+              } catch (e) { /* Closed while we were asking */ }
+          }));
+          // Departed peers drop out here
+          statsSamplesRef.current.forEach((_, id) => { if (!next.has(id)) statsSamplesRef.current.delete(id); });
+          statsReportsRef.current.forEach((_, id) => { if (!next.has(id)) statsReportsRef.current.delete(id); });
+          setPeerStats(next);
+      }, STATS_INTERVAL_MS);
+      return () => clearInterval(timer);
+  }, [viewState]);
 
-             setIsScreenSharing(true);
-             playSound(SOUND_UI_ON);
-             broadcastData({type:'status', videoEnabled:true, muted:isMuted, deafened:isDeafened, isScreenSharing:true, currentActivity:myCurrentActivity});
-          } catch(e) { addLog("Partage annulé", "info"); }
-      }
+  const statsRows = (stats: PeerStats): [string, string][] => {
+      const pair = (a?: string | number, b?: string | number, unit = '') => `${a ?? '–'}${unit} ↓ · ${b ?? '–'}${unit} ↑`;
+      return [
+          ['RTT', stats.rtt !== undefined ? `${stats.rtt} ms` : '–'],
+          ['Gigue', stats.jitter !== undefined ? `${stats.jitter} ms` : '–'],
+          ['Pertes', pair(stats.packetLoss, stats.packetLossOut, ' %')],
+          ['Débit', pair(stats.bitrateIn, stats.bitrateOut, ' kb/s')],
+          ['Image', pair(stats.resolutionIn, stats.resolutionOut)],
+          ['FPS', pair(stats.fpsIn, stats.fpsOut)],
+          ['Codec', pair(stats.codecIn, stats.codecOut)],
+          ['Envoi', stats.sendLevel ? `Réduit (palier ${stats.sendLevel}/${MAX_SEND_LEVEL})` : 'Pleine qualité'],
+          ['Chemin', stats.localCandidate ? `${stats.localCandidate} → ${stats.remoteCandidate ?? '?'} (${stats.transport ?? '?'})` : '–'],
+      ];
+  };
+
+  const exportDiagnostics = () => {
+      const dump = diagnosticsDump(PROTOCOL_VERSION, (Array.from(peersRef.current.values()) as RemotePeer[]).map(peer => ({
+          id: peer.id,
+          displayName: peer.displayName,
+          connectionState: peer.connectionState,
+          stats: peerStats.get(peer.id),
+          report: statsReportsRef.current.get(peer.id),
+      })));
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      downloadBlob(new Blob([JSON.stringify(dump, null, 2)], { type: 'application/json' }), `cosmos-diagnostics-${stamp}.json`);
   };
 
   // --- PEER MANAGEMENT ---
@@ -429,7 +915,7 @@ export default function App() {
           const newMap = new Map<string, RemotePeer>(prev);
           const existing = newMap.get(id) || {
               id, displayName: 'Connexion...', status: { muted: false, deafened: false, videoEnabled: false, isScreenSharing: false },
-              volume: 1, isSpeaking: false, currentActivity: 'none'
+              volume: 1, isSpeaking: false, currentActivity: 'none', connectionState: 'connecting'
           } as RemotePeer;
           newMap.set(id, { ...existing, ...partialPeer });
           return newMap;
@@ -437,34 +923,270 @@ export default function App() {
   };
 
   const removePeer = (id: string) => {
+      // Forget the link first so the close events we trigger below are ignored
+      const link = linksRef.current.get(id);
+      if (link) {
+          clearLinkTimers(link);
+          linksRef.current.delete(id);
+          link.mediaCall?.close();
+          link.dataConn?.close();
+      }
       setPeers(prev => {
           const newMap = new Map<string, RemotePeer>(prev);
           const p = newMap.get(id);
           if (p) {
               if (p.mediaCall) p.mediaCall.close();
+              if (p.screenCall) p.screenCall.close();
               if (p.dataConn) p.dataConn.close();
           }
           newMap.delete(id);
           return newMap;
       });
-      if (peerAnalysersRef.current.has(id)) peerAnalysersRef.current.delete(id);
-      setPinnedView(prev => (prev === id ? null : prev));
+      if (mixerRef.current) {
+          removeChannel(mixerRef.current, id);
+          removeChannel(mixerRef.current, screenKey(id));
+      }
+      screenCallsRef.current.get(id)?.close();
+      screenCallsRef.current.delete(id);
+      handshakesRef.current.delete(id);
+      pauseTransfersWith(id);
+      setPinnedTiles(prev => prev.filter(key => key !== id && key !== screenKey(id)));
+      pendingCallsRef.current.get(id)?.close();
+      pendingCallsRef.current.delete(id);
+      requestedLayersRef.current.delete(id);
+      sentLayersRef.current.delete(id);
+      setVideoOffPeers(prev => { const next = new Set(prev); next.delete(id); return next; });
+      sendAdaptationRef.current.delete(id);
+      dropMember(id);
+      // The leaver may have held the anchor; whoever claims it first takes over
+      if (roomRef.current && !anchorRef.current) claimRoomAnchor(roomRef.current);
       playSound(SOUND_LEAVE);
       addLog("Un utilisateur a quitté le salon", "info");
       setIsWaitingForHost(false);
   };
 
+  const sendTo = (conn: DataConnection, msg: NetworkMessage) => {
+      conn.send(encodeMessage(msg));
+  };
+
   const broadcastData = (msg: NetworkMessage) => {
       peersRef.current.forEach(peer => {
           if (peer.dataConn && peer.dataConn.open) {
-              peer.dataConn.send(msg);
+              sendTo(peer.dataConn, msg);
+          }
+      });
+  };
+
+  // --- ROOMS ---
+  const enterRoom = (next: RoomInfo, view: Membership) => {
+      roomRef.current = next;
+      setRoom(next);
+      setRoomCapacity(next.capacity);
+      setRoomInUrl(next.id);
+      updateMembership(view);
+      enterChatRoom(next.id);
+      claimRoomAnchor(next);
+  };
+
+  const roomInfoMessage = (current: RoomInfo): RoomInfoMessage => ({
+      type: 'room-info',
+      room: current,
+      epoch: membershipRef.current.epoch,
+      members: membershipRef.current.members,
+  });
+
+  // Connections meant for a room we're not in (stale invite, reused peer ID) are refused
+  const isForOtherRoom = (metadata: any) =>
+      !!metadata?.roomId && !!roomRef.current && metadata.roomId !== roomRef.current.id;
+
+  const handleRoomInfo = (senderId: string, data: RoomInfoMessage) => {
+      if (!roomRef.current || data.room.id !== roomRef.current.id) {
+          console.warn(`Ignored room-info from ${senderId}: they are in room ${data.room.id}`);
+          return;
+      }
+      if (data.epoch > membershipRef.current.epoch) applyMembership({ epoch: data.epoch, members: data.members });
+  };
+
+  // Registers the room's well-known anchor ID so newcomers can find us; fails harmlessly
+  // with 'unavailable-id' when another member already holds it
+  const claimRoomAnchor = (target: RoomInfo, retry = true) => {
+      if (anchorRef.current) return;
+      const anchor = new window.Peer(roomAnchorId(target.id), toPeerOptions(signaling));
+      anchorRef.current = anchor;
+      anchor.on('connection', serveRoomLookup);
+      anchor.on('disconnected', () => { if (!anchor.destroyed) anchor.reconnect(); });
+      anchor.on('error', (e) => {
+          if (anchorRef.current === anchor) anchorRef.current = null;
+          anchor.destroy();
+          // A holder who just dropped may still be registered for a moment
+          if (retry && e?.type === 'unavailable-id') {
+              setTimeout(() => { if (roomRef.current?.id === target.id) claimRoomAnchor(target, false); }, ROOM_ANCHOR_RETRY_MS);
+          }
+      });
+  };
+
+  const releaseRoomAnchor = () => {
+      anchorRef.current?.destroy();
+      anchorRef.current = null;
+  };
+
+  // Answers lookups on the anchor and on our own ID; the newcomer then dials the leader
+  const serveRoomLookup = (conn: DataConnection) => {
+      conn.on('open', () => {
+          if (!roomRef.current) { conn.close(); return; }
+          sendTo(conn, { type: 'hello' });
+          sendTo(conn, roomInfoMessage(roomRef.current));
+          setTimeout(() => conn.close(), HANDSHAKE_TIMEOUT_MS);
+      });
+  };
+
+  // Asks `targetId` (a room anchor or any member) which room it is in, then knocks on the leader's door
+  const lookupRoom = (targetId: string) => {
+      if (!peerRef.current || roomLookupRef.current || roomRef.current) return;
+      roomLookupRef.current = targetId;
+      setIsTransitioning(true);
+      const conn = peerRef.current.connect(targetId, { metadata: { lookup: true } });
+      const timer = setTimeout(() => { conn.close(); failRoomLookup(targetId); }, ROOM_LOOKUP_TIMEOUT_MS);
+      conn.on('data', (raw: unknown) => {
+          const result = validateMessage(raw);
+          if (!result.ok) {
+              if (result.incompatibleVersion === undefined) return;
+              clearTimeout(timer);
+              conn.close();
+              failRoomLookup(targetId, `Ce salon utilise une version incompatible (v${result.incompatibleVersion}, requis v${PROTOCOL_VERSION})`);
+              return;
           }
+          if (result.message.type !== 'room-info' || roomLookupRef.current !== targetId) return;
+          clearTimeout(timer);
+          conn.close();
+          const { room: found, epoch, members } = result.message;
+          const view = { epoch, members };
+          const leader = electLeader(view);
+          if (!leader || leader === peerRef.current?.id) { failRoomLookup(targetId); return; }
+          if (isFull(view, found.capacity)) { failRoomLookup(targetId, `Le salon « ${found.name} » est complet`); return; }
+          roomLookupRef.current = null;
+          enterRoom(found, view);
+          connectToPeer(leader);
+      });
+  };
+
+  // Called from the lookup timeout and from the peer's 'peer-unavailable' error
+  const failRoomLookup = (targetId: string, reason = "Salon introuvable : il est vide ou le lien a expiré") => {
+      if (roomLookupRef.current !== targetId) return;
+      roomLookupRef.current = null;
+      setIsTransitioning(false);
+      setRoomInUrl(null);
+      addLog(reason, 'error');
+  };
+
+  // Lobby input: a room ID or invite link, otherwise a member's peer ID
+  const joinFromInput = (input: string) => {
+      const roomId = parseRoomInput(input);
+      if (roomId) lookupRoom(roomAnchorId(roomId));
+      else if (input.trim() !== peerId) lookupRoom(input.trim());
+  };
+
+  // Deep link: ?room= skips the lobby as soon as the peer is registered
+  useEffect(() => {
+      if (viewState !== 'lobby' || !inviteRoomId || !localStream) return;
+      setInviteRoomId(null);
+      lookupRoom(roomAnchorId(inviteRoomId));
+  }, [viewState, inviteRoomId, localStream]);
+
+  // --- MEMBERSHIP ---
+  const myId = () => peerRef.current?.id || '';
+  const isLeader = () => electLeader(membershipRef.current) === myId();
+
+  const updateMembership = (view: Membership) => {
+      membershipRef.current = view;
+      setMembership(view);
+  };
+
+  // Adopts a newer view: announces arrivals and departures, drops whoever left,
+  // answers held calls from newly admitted members and completes the mesh
+  const applyMembership = (next: Membership) => {
+      const prev = membershipRef.current;
+      const prevLeader = electLeader(prev);
+      updateMembership(next);
+      const me = myId();
+      if (isMember(prev, me) && !isMember(next, me)) {
+          addLog("Vous avez été retiré du salon", 'error');
+          leaveRoom();
+          return;
+      }
+      const { joined, left } = diffMembers(prev, next);
+      const nameOf = (id: string) => peersRef.current.get(id)?.displayName || id;
+      if (isMember(prev, me)) {
+          joined.filter(id => id !== me).forEach(id => addLog(`${nameOf(id)} entre dans le salon`, 'info'));
+      }
+      left.forEach(id => { if (peersRef.current.has(id)) removePeer(id); });
+      const leader = electLeader(next);
+      if (prevLeader && leader && leader !== prevLeader && isMember(prev, me)) {
+          addLog(leader === me ? "Vous êtes maintenant l'hôte du salon" : `${nameOf(leader)} est maintenant l'hôte`, 'info');
+      }
+      pendingCallsRef.current.forEach((call, id) => {
+          if (!isMember(next, id)) return;
+          pendingCallsRef.current.delete(id);
+          answerCall(call);
+      });
+      reconcileMesh();
+  };
+
+  // Every pair of members should be linked; the later arrival dials so calls never cross
+  const reconcileMesh = () => {
+      const view = membershipRef.current;
+      const mine = joinedAt(view, myId());
+      if (mine === undefined) return;
+      view.members.forEach(m => {
+          if (m.id !== myId() && m.joinedAt < mine && !peersRef.current.has(m.id)) dialPeer(m.id);
       });
   };
 
+  const broadcastMembership = () => {
+      if (roomRef.current) broadcastData(roomInfoMessage(roomRef.current));
+  };
+
+  const admitMember = (id: string) => {
+      if (isMember(membershipRef.current, id)) return;
+      applyMembership(addMember(membershipRef.current, id));
+      broadcastMembership();
+  };
+
+  const denyJoin = (id: string, conn: DataConnection, reason: JoinDeniedMessage['reason']) => {
+      sendTo(conn, { type: 'join-denied', reason });
+      // Let the message flush before hanging up
+      setTimeout(() => removePeer(id), 500);
+  };
+
+  // Someone's link is gone for good: drop them from our view, and if that makes us
+  // the leader (or we already were), publish the new view
+  const dropMember = (id: string) => {
+      const view = membershipRef.current;
+      if (!isMember(view, id)) return;
+      const wasLeader = isLeader();
+      const next = removeMember(view, id);
+      const leadsNow = electLeader(next) === myId();
+      updateMembership(leadsNow ? { ...next, epoch: view.epoch + 1 } : next);
+      if (leadsNow) {
+          if (!wasLeader) addLog("Vous êtes maintenant l'hôte du salon", 'info');
+          broadcastMembership();
+      }
+  };
+
+  // Non-members knocking on a non-leader are kept on hold until the leader admits them
+  const holdGuest = (id: string) => {
+      setTimeout(() => {
+          if (isMember(membershipRef.current, id)) return;
+          pendingCallsRef.current.get(id)?.close();
+          pendingCallsRef.current.delete(id);
+          if (peersRef.current.has(id) && !isLeader()) removePeer(id);
+      }, ADMISSION_TIMEOUT_MS);
+  };
+
   // --- CONNECTION LOGIC ---
 
   const startRoomTransition = (capacity: number, mode?: 'cinema') => {
+      enterRoom(createRoom(roomNameInput || `Salon de ${displayName}`, capacity), founderMembership(myId()));
       setIsTransitioning(true);
       playSound(SOUND_ENTER_ROOM);
       setTimeout(() => {
@@ -477,6 +1199,7 @@ export default function App() {
       }, 500);
   };
 
+  // Joining: dial the leader and wait for it to let us in
   const connectToPeer = (targetId: string) => {
       if (!peerRef.current || !localStream || peersRef.current.has(targetId) || targetId === peerId) return;
       setIsTransitioning(true);
@@ -486,32 +1209,58 @@ export default function App() {
           setViewState('room');
           setIsWaitingForHost(true);
           setTimeout(() => setIsTransitioning(false), 500);
-          
-          const streamToSend = processedStream || setupAudioGraph(localStream);
-          const call = peerRef.current!.call(targetId, streamToSend, { metadata: { displayName: displayName, avatar: localAvatarRef.current } });
-          const conn = peerRef.current!.connect(targetId, { metadata: { displayName: displayName, avatar: localAvatarRef.current } });
-          addPeer(targetId, { displayName: 'Appel en cours...', mediaCall: call, dataConn: conn });
-          setupCallEvents(call, targetId);
-          setupDataEvents(conn, targetId);
+          dialPeer(targetId, processedStream || setupAudioGraph(localStream));
       }, 500);
   };
 
+  const dialPeer = (targetId: string, stream = processedStreamRef.current) => {
+      if (!peerRef.current || !stream || peersRef.current.has(targetId) || linksRef.current.has(targetId) || targetId === myId()) return;
+      const metadata = { displayName: displayNameRef.current, avatar: localAvatarRef.current, roomId: roomRef.current?.id };
+      const call = peerRef.current.call(targetId, stream, { metadata });
+      const conn = peerRef.current.connect(targetId, { metadata });
+      linksRef.current.set(targetId, createLink({ mediaCall: call, dataConn: conn }));
+      addPeer(targetId, { displayName: 'Appel en cours...', mediaCall: call, dataConn: conn });
+      setupCallEvents(call, targetId);
+      setupDataEvents(conn, targetId);
+  };
+
   const setupCallEvents = (call: MediaConnection, remoteId: string) => {
       call.on('stream', (stream) => {
+          if (!isCurrentConnection(remoteId, call)) return;
+          // Negotiation is done, so the sender can take the layer this peer asked for
+          applyVideoLayerFor(remoteId);
           addPeer(remoteId, { stream });
-          setupRemoteAudioAnalyzer(remoteId, stream);
+          connectRemoteAudio(remoteId, stream);
+          // New (or re-established) call: our screen share goes along with it
+          if (screenStreamRef.current) callWithScreen(remoteId);
           setIsWaitingForHost(false); 
       });
-      call.on('close', () => removePeer(remoteId));
-      call.on('error', () => { removePeer(remoteId); setIsWaitingForHost(false); });
+      call.on('iceStateChanged', (state) => {
+          if (isCurrentConnection(remoteId, call)) handleIceState(remoteId, call.peerConnection, state);
+      });
+      call.on('close', () => { if (isCurrentConnection(remoteId, call)) handleLinkLost(remoteId); });
+      call.on('error', () => { if (isCurrentConnection(remoteId, call)) handleLinkLost(remoteId); setIsWaitingForHost(false); });
   };
 
   const setupDataEvents = (conn: DataConnection, remoteId: string) => {
       conn.on('open', () => {
+          if (!isCurrentConnection(remoteId, conn)) return;
           const meta = conn.metadata || {};
-          addLog(`${meta.displayName || 'Un ami'} a rejoint le Cosmos`, 'success');
+          // Re-dialed connections carry `reconnect`, even if this side never noticed the drop
+          if (markConnected(remoteId) || meta.reconnect) {
+              addLog(`${peersRef.current.get(remoteId)?.displayName || 'Un ami'} est de retour`, 'success');
+          } else {
+              addLog(`${meta.displayName || 'Un ami'} a rejoint le Cosmos`, 'success');
+              playSound(SOUND_JOIN);
+          }
           
-          conn.send({ 
+          // Hello always goes first so the other side can check our version before anything else
+          sendTo(conn, { type: 'hello' });
+          if (roomRef.current && isLeader() && !isMember(membershipRef.current, remoteId) && isFull(membershipRef.current, roomRef.current.capacity)) {
+              denyJoin(remoteId, conn, 'full');
+              return;
+          }
+          sendTo(conn, { 
               type: 'status', 
               muted: isMutedRef.current, 
               deafened: isDeafenedRef.current,
@@ -519,17 +1268,152 @@ export default function App() {
               isScreenSharing: isScreenSharingRef.current,
               currentActivity: myActivityRef.current
           });
-          conn.send({ type: 'profile-update', avatar: localAvatarRef.current, displayName: displayNameRef.current });
-          playSound(SOUND_JOIN);
+          sendTo(conn, { type: 'profile-update', avatar: localAvatarRef.current || undefined, displayName: displayNameRef.current });
+          sendTo(conn, { type: 'recording', active: !!recordingRef.current });
+          if (roomRef.current) sendTo(conn, roomInfoMessage(roomRef.current));
+          resumeTransfersWith(conn);
+
+          // Clients predating the handshake never say hello
+          setTimeout(() => {
+              if (conn.open && !handshakesRef.current.has(remoteId)) refuseIncompatiblePeer(remoteId, null);
+          }, HANDSHAKE_TIMEOUT_MS);
       });
-      conn.on('data', (data: NetworkMessage) => {
-          handleNetworkMessage(remoteId, data);
+      conn.on('data', (raw: unknown) => {
+          const result = validateMessage(raw);
+          if (!result.ok) {
+              console.warn(`Dropped message from ${remoteId}: ${result.reason}`);
+              if (result.incompatibleVersion !== undefined && !handshakesRef.current.has(remoteId)) {
+                  refuseIncompatiblePeer(remoteId, result.incompatibleVersion);
+              }
+              return;
+          }
+          if (result.message.type === 'hello') {
+              handshakesRef.current.add(remoteId);
+              sentLayersRef.current.delete(remoteId); // Fresh connection: tell them our layer again
+              sendTo(conn, { type: 'chat-sync-request' });
+              sendTo(conn, { type: 'whiteboard-sync', vector: wbDocRef.current.vector });
+              return;
+          }
+          if (!handshakesRef.current.has(remoteId)) {
+              console.warn(`Dropped ${result.message.type} from ${remoteId}: no handshake yet`);
+              return;
+          }
+          handleNetworkMessage(remoteId, result.message, conn);
       });
-      conn.on('close', () => removePeer(remoteId));
-      conn.on('error', () => { removePeer(remoteId); });
+      conn.on('iceStateChanged', (state: RTCIceConnectionState) => {
+          if (isCurrentConnection(remoteId, conn)) handleIceState(remoteId, conn.peerConnection, state);
+      });
+      conn.on('close', () => { if (isCurrentConnection(remoteId, conn)) handleLinkLost(remoteId); });
+      conn.on('error', () => { if (isCurrentConnection(remoteId, conn)) handleLinkLost(remoteId); });
+  };
+
+  const refuseIncompatiblePeer = (remoteId: string, version: number | null) => {
+      const name = peersRef.current.get(remoteId)?.displayName || remoteId;
+      const theirs = version === null ? 'ancienne version' : `v${version}`;
+      addLog(`${name} utilise une version incompatible (${theirs}, requis v${PROTOCOL_VERSION})`, 'error');
+      removePeer(remoteId);
+  };
+
+  // --- RECONNECTION ---
+  // Events from connections we already replaced or closed must not touch the peer
+  const isCurrentConnection = (id: string, conn: DataConnection | MediaConnection) => {
+      const link = linksRef.current.get(id);
+      return !!link && (link.dataConn === conn || link.mediaCall === conn);
+  };
+
+  // Returns true when the peer was coming back from a drop rather than joining
+  const markConnected = (id: string) => {
+      const link = linksRef.current.get(id);
+      if (!link) return false;
+      const wasReconnecting = link.state === 'reconnecting';
+      clearLinkTimers(link);
+      link.attempts = 0;
+      link.state = 'connected';
+      addPeer(id, { connectionState: 'connected' });
+      return wasReconnecting;
+  };
+
+  const enterReconnecting = (id: string) => {
+      const link = linksRef.current.get(id);
+      if (!link || link.state === 'reconnecting') return;
+      link.state = 'reconnecting';
+      addPeer(id, { connectionState: 'reconnecting' });
+      addLog(`Connexion perdue avec ${peersRef.current.get(id)?.displayName || 'un ami'}, reconnexion...`, 'info');
+  };
+
+  const handleIceState = (id: string, pc: RTCPeerConnection, state: RTCIceConnectionState) => {
+      const link = linksRef.current.get(id);
+      if (!link) return;
+      if (state === 'disconnected' && link.state === 'connected') {
+          enterReconnecting(id);
+          // Fresh candidates often save a network switch; short blips also recover by themselves
+          pc.restartIce?.();
+          if (link.iceTimer) clearTimeout(link.iceTimer);
+          link.iceTimer = setTimeout(() => { link.iceTimer = null; handleLinkLost(id); }, ICE_RESTART_GRACE_MS);
+      } else if ((state === 'connected' || state === 'completed') && link.state === 'reconnecting' && !link.redialTimer) {
+          if (markConnected(id)) addLog(`${peersRef.current.get(id)?.displayName || 'Un ami'} est de retour`, 'success');
+      }
+  };
+
+  // Data or media went away: keep the peer in the room and try to get it back
+  const handleLinkLost = (id: string) => {
+      const link = linksRef.current.get(id);
+      if (!link) return;
+      // Never got connected in the first place, nothing to restore
+      if (link.state === 'connecting') { removePeer(id); return; }
+      if (link.iceTimer) { clearTimeout(link.iceTimer); link.iceTimer = null; }
+      enterReconnecting(id);
+      handshakesRef.current.delete(id);
+      pauseTransfersWith(id);
+      if (!link.redialTimer) scheduleRedial(id);
   };
 
-  const handleNetworkMessage = (senderId: string, data: NetworkMessage) => {
+  // Both sides count attempts so they give up together, but only the redialer actually dials
+  const scheduleRedial = (id: string) => {
+      const link = linksRef.current.get(id);
+      if (!link) return;
+      link.attempts++;
+      if (link.attempts > MAX_RECONNECT_ATTEMPTS) {
+          link.state = 'gone';
+          addLog(`Impossible de rétablir la connexion avec ${peersRef.current.get(id)?.displayName || 'un ami'}`, 'error');
+          removePeer(id);
+          return;
+      }
+      link.redialTimer = setTimeout(() => {
+          link.redialTimer = null;
+          if (linksRef.current.get(id) !== link) return;
+          if (peerRef.current && isRedialer(peerRef.current.id, id)) redial(id);
+          scheduleRedial(id);
+      }, reconnectDelay(link.attempts));
+  };
+
+  const redial = (id: string) => {
+      const link = linksRef.current.get(id);
+      const stream = processedStreamRef.current;
+      if (!link || !peerRef.current || !stream || peerRef.current.disconnected) return;
+      const metadata = { displayName: displayNameRef.current, avatar: localAvatarRef.current, reconnect: true };
+      const call = peerRef.current.call(id, stream, { metadata });
+      const conn = peerRef.current.connect(id, { metadata });
+      replaceLinkConnections(id, link, call, conn);
+      setupCallEvents(call, id);
+      setupDataEvents(conn, id);
+  };
+
+  // Swap in the new connections before closing the old ones so their close events are ignored
+  const replaceLinkConnections = (id: string, link: PeerLink, call?: MediaConnection, conn?: DataConnection) => {
+      const oldCall = call ? link.mediaCall : undefined;
+      const oldConn = conn ? link.dataConn : undefined;
+      if (call) link.mediaCall = call;
+      if (conn) {
+          link.dataConn = conn;
+          handshakesRef.current.delete(id);
+      }
+      addPeer(id, call && conn ? { mediaCall: call, dataConn: conn } : call ? { mediaCall: call } : { dataConn: conn });
+      oldCall?.close();
+      oldConn?.close();
+  };
+
+  const handleNetworkMessage = (senderId: string, data: NetworkMessage, conn: DataConnection) => {
       switch (data.type) {
           case 'status':
               // Toast Logic for Status Changes
@@ -543,127 +1427,1140 @@ export default function App() {
                   }
               }
 
-              addPeer(senderId, { status: { muted: data.muted, deafened: data.deafened, videoEnabled: data.videoEnabled, isScreenSharing: data.isScreenSharing }, currentActivity: data.currentActivity || 'none' });
-              break;
-          case 'profile-update':
-              addPeer(senderId, { displayName: data.displayName || 'Utilisateur', avatar: data.avatar });
-              break;
-          case 'chat':
-              playSound(SOUND_MESSAGE);
-              setChatHistory(prev => [...prev, { id: Date.now().toString(), sender: senderId, senderName: data.senderName, text: data.text, timestamp: Date.now() }]);
-              break;
-          case 'file-share':
-              playSound(SOUND_MESSAGE);
-              setChatHistory(prev => [...prev, { id: Date.now().toString(), sender: senderId, senderName: data.senderName, image: data.file, timestamp: Date.now() }]);
-              break;
-          case 'peer-list':
-              data.peers.forEach(pid => {
-                  if (pid !== peerId && !peersRef.current.has(pid)) connectToPeer(pid);
-              });
-              break;
-          case 'activity':
-              handleActivityMessage(senderId, data);
-              break;
-      }
+              addPeer(senderId, { status: { muted: data.muted, deafened: data.deafened, videoEnabled: data.videoEnabled, isScreenSharing: data.isScreenSharing }, currentActivity: data.currentActivity || 'none' });
+              if (!data.isScreenSharing) dropScreen(senderId);
+              break;
+          case 'profile-update':
+              addPeer(senderId, { displayName: data.displayName || 'Utilisateur', avatar: data.avatar });
+              break;
+          case 'chat':
+              playSound(SOUND_MESSAGE);
+              appendChatMessages([{ id: data.id, sender: senderId, senderName: data.senderName, text: data.text, timestamp: data.timestamp, lamport: data.lamport, replyTo: data.replyTo || undefined }]);
+              break;
+          case 'chat-action':
+              applyChatActionFrom(senderId, data);
+              break;
+          case 'chat-sync-request': {
+              const shared = toSyncableChatMessages(chatHistoryRef.current.filter(m => !m.isSystem).slice(-MAX_CHAT_SYNC).map(toSharedChatMessage));
+              for (let i = 0; i < shared.length; i += MAX_CHAT_SYNC_BATCH) {
+                  sendTo(conn, { type: 'chat-sync', messages: shared.slice(i, i + MAX_CHAT_SYNC_BATCH) });
+              }
+              break;
+          }
+          case 'chat-sync':
+              appendChatMessages(data.messages, senderId);
+              break;
+          case 'file-offer':
+          case 'file-chunk':
+          case 'file-ack':
+          case 'file-cancel':
+              handleTransferMessage(conn, senderId, data);
+              break;
+          case 'room-info':
+              handleRoomInfo(senderId, data);
+              break;
+          case 'member-leave':
+              removePeer(senderId);
+              break;
+          case 'whiteboard':
+              receiveWhiteboardEntries(data.entries, senderId, conn);
+              break;
+          case 'whiteboard-sync': {
+              batchEntries(missingEntries(wbDocRef.current, data.vector)).forEach(entries => sendTo(conn, { type: 'whiteboard', entries }));
+              break;
+          }
+          case 'video-layer':
+              requestedLayersRef.current.set(senderId, data.layer);
+              applyVideoLayerFor(senderId);
+              break;
+          case 'recording': {
+              const recorder = peersRef.current.get(senderId);
+              if (recorder && !!recorder.isRecording !== data.active) {
+                  addLog(`${recorder.displayName} ${data.active ? 'enregistre la session' : "a arrêté l'enregistrement"}`, 'info');
+              }
+              addPeer(senderId, { isRecording: data.active });
+              break;
+          }
+          case 'join-denied':
+              addLog(data.reason === 'full' ? "Le salon est complet" : "L'hôte a refusé votre demande", 'error');
+              leaveRoom();
+              break;
+          case 'activity':
+              handleActivityMessage(senderId, data);
+              break;
+      }
+  };
+
+  // --- ACTIVITY HANDLERS ---
+  const handleActivityMessage = (senderId: string, data: ActivityMessage) => {
+    if (data.activityType === 'youtube' && activityView?.type === 'youtube') {
+         if (data.action === 'sync-state' && playerRef.current) {
+             isRemoteUpdateRef.current = true;
+             const { playerState, currentTime } = data.data!;
+             const myTime = playerRef.current.getCurrentTime();
+             if (Math.abs(myTime - (currentTime || 0)) > 1.5) playerRef.current.seekTo(currentTime, true);
+             if (playerState === 1 && playerRef.current.getPlayerState() !== 1) playerRef.current.playVideo();
+             else if (playerState === 2) playerRef.current.pauseVideo();
+             setTimeout(() => { isRemoteUpdateRef.current = false; }, 800);
+         } else if (data.action === 'add-queue') {
+             if(data.data?.queueItem) setYoutubeQueue(prev => [...prev, data.data!.queueItem!]);
+         } else if (data.action === 'remove-queue') {
+             if(data.data?.videoId) setYoutubeQueue(prev => prev.filter(i => i.id !== data.data!.videoId));
+         } else if (data.action === 'play-queue') {
+             if(data.data?.queueItem) {
+                 setCurrentVideo(data.data.queueItem);
+                 if(playerRef.current) playerRef.current.loadVideoById(data.data.queueItem.videoId);
+             }
+         } else if (data.action === 'update-queue') {
+             if (data.data?.queue) setYoutubeQueue(data.data.queue);
+         }
+    } 
+    else if (data.activityType === 'whiteboard') {
+        // Cursors are tracked even with the board closed, so following works as soon as it opens
+        if (data.action === 'cursor') {
+            receiveBoardCursor(senderId, data.data);
+            return;
+        }
+        if (data.action === 'set-page' && data.data?.pageId) {
+            wbPresenterPageRef.current = data.data.pageId;
+            if (wbPageModeRef.current === 'shared') setWbPageId(data.data.pageId);
+        }
+    }
+  };
+
+  // --- CHAT ---
+  // Chat mutations go through the ref first so back-to-back network messages never
+  // build on a stale render
+  const updateChatHistory = (update: (prev: ChatMessage[]) => ChatMessage[]) => {
+      chatHistoryRef.current = update(chatHistoryRef.current);
+      setChatHistory(chatHistoryRef.current);
+  };
+
+  const persistChatMessages = (ids: Set<string>) => {
+      if (!roomIdRef.current) return;
+      const messages = chatHistoryRef.current.filter(m => ids.has(m.id));
+      saveChatMessages(roomIdRef.current, messages).catch(e => console.error("Error saving chat history", e));
+  };
+
+  const enterChatRoom = (roomId: string) => {
+      roomIdRef.current = roomId;
+      pendingChatActionsRef.current.clear();
+      updateChatHistory(() => []);
+      loadRoomHistory(roomId).then(history => {
+          if (roomIdRef.current !== roomId) return;
+          history.forEach(m => { lamportRef.current = Math.max(lamportRef.current, m.lamport, m.revision || 0); });
+          updateChatHistory(prev => mergeChatHistory(prev, history));
+          applyPendingChatActions(history.map(m => m.id));
+      }).catch(e => console.error("Error loading chat history", e));
+  };
+
+  // Single entry point for new messages: advances the clock, dedupes by id and persists.
+  // `fromId` is set for a backfill, see mergeChatHistory.
+  const appendChatMessages = (messages: ChatMessage[], fromId?: string) => {
+      if (messages.length === 0) return;
+      messages.forEach(m => { lamportRef.current = Math.max(lamportRef.current, m.lamport, m.revision || 0); });
+      updateChatHistory(prev => mergeChatHistory(prev, messages, fromId));
+      persistChatMessages(new Set(messages.map(m => m.id)));
+      applyPendingChatActions(messages.map(m => m.id));
+  };
+
+  // Replays, in clock order, the actions that arrived before their message did
+  const applyPendingChatActions = (ids: string[]) => {
+      ids.forEach(id => {
+          const pending = pendingChatActionsRef.current.get(id);
+          if (!pending) return;
+          pendingChatActionsRef.current.delete(id);
+          pending.sort((a, b) => a.action.lamport - b.action.lamport).forEach(({ actorId, action }) => applyChatActionFrom(actorId, action));
+      });
+  };
+
+  const applyChatActionFrom = (actorId: string, action: ChatActionMessage) => {
+      lamportRef.current = Math.max(lamportRef.current, action.lamport);
+      const target = chatHistoryRef.current.find(m => m.id === action.messageId);
+      if (!target) {
+          const now = Date.now();
+          pendingChatActionsRef.current.forEach((list, id) => {
+              const fresh = list.filter(p => now - p.at < PENDING_ACTION_TTL_MS);
+              if (fresh.length) pendingChatActionsRef.current.set(id, fresh);
+              else pendingChatActionsRef.current.delete(id);
+          });
+          const list = pendingChatActionsRef.current.get(action.messageId) || [];
+          pendingChatActionsRef.current.set(action.messageId, [...list, { actorId, action, at: now }]);
+          return;
+      }
+      const updated = applyChatAction(target, actorId, action);
+      if (!updated) return;
+      updateChatHistory(prev => prev.map(m => (m.id === updated.id ? updated : m)));
+      persistChatMessages(new Set([updated.id]));
+  };
+
+  const sendChatAction = (action: Omit<ChatActionMessage, 'type' | 'lamport'>) => {
+      const msg: ChatActionMessage = { type: 'chat-action', ...action, lamport: ++lamportRef.current };
+      broadcastData(msg);
+      applyChatActionFrom(peerId || '', msg);
+  };
+
+  const toggleReaction = (msg: ChatMessage, emoji: string) => {
+      const mine = msg.reactions?.[emoji]?.includes(peerId || '');
+      sendChatAction({ action: mine ? 'unreact' : 'react', messageId: msg.id, emoji });
+      setReactionPickerFor(null);
+  };
+
+  const startEditing = (msg: ChatMessage) => {
+      setReplyingTo(null);
+      setEditingMessageId(msg.id);
+      setMessageInput(msg.text || '');
+  };
+
+  const cancelComposer = () => {
+      setReplyingTo(null);
+      if (editingMessageId) setMessageInput('');
+      setEditingMessageId(null);
+  };
+
+  const sendChatMessage = () => {
+      if (!messageInput.trim()) return;
+      // Peers would refuse it (edits too), while we kept it
+      if (messageInput.length > MAX_CHAT_LENGTH) {
+          addLog(`Message trop long (max ${MAX_CHAT_LENGTH} caractères)`, 'error');
+          return;
+      }
+      if (editingMessageId) {
+          sendChatAction({ action: 'edit', messageId: editingMessageId, text: messageInput });
+          setEditingMessageId(null);
+          setMessageInput('');
+          return;
+      }
+      const msg: ChatMessage = { id: crypto.randomUUID(), sender: peerId || '', senderName: displayName, text: messageInput, timestamp: Date.now(), lamport: ++lamportRef.current };
+      if (replyingTo) msg.replyTo = replyingTo.id;
+      broadcastData({ type: 'chat', id: msg.id, sender: msg.sender, senderName: displayName, text: messageInput, timestamp: msg.timestamp, lamport: msg.lamport, replyTo: msg.replyTo });
+      appendChatMessages([msg]);
+      setReplyingTo(null);
+      setMessageInput('');
+  };
+
+  // --- FILE TRANSFER ---
+  // Batched: a chunk every few milliseconds would otherwise re-render the whole app each time
+  const updateTransfer = (progress: TransferProgress) => {
+      progressUpdatesRef.current.set(transferKey(progress.transferId, progress.peerId), progress);
+      if (progressTimerRef.current) return;
+      progressTimerRef.current = window.setTimeout(() => {
+          progressTimerRef.current = 0;
+          const updates = progressUpdatesRef.current;
+          progressUpdatesRef.current = new Map();
+          setTransfers(prev => {
+              const next = new Map(prev);
+              updates.forEach((progress, key) => next.set(key, progress));
+              return next;
+          });
+      }, PROGRESS_INTERVAL_MS);
+  };
+
+  const reportOutgoing = (t: OutgoingTransfer) => {
+      updateTransfer({ transferId: t.transferId, peerId: t.peerId, direction: 'send', done: t.acked, totalChunks: t.totalChunks, state: t.state });
+      // Once every peer is through with it, the file is only needed for our own download link
+      const sending = Array.from(outgoingTransfersRef.current.values()).some(other => other.transferId === t.transferId && !isFinished(other.state));
+      if (!sending) outgoingFilesRef.current.delete(t.transferId);
+  };
+
+  const reportIncoming = (t: IncomingTransfer) => {
+      updateTransfer({ transferId: t.offer.transferId, peerId: t.senderId, direction: 'receive', done: t.received, totalChunks: t.offer.totalChunks, state: t.state });
+  };
+
+  const shareFile = async (file: File) => {
+      if (file.size > MAX_TRANSFER_SIZE) {
+          addLog(`Fichier trop volumineux (max ${formatBytes(MAX_TRANSFER_SIZE)})`, 'error');
+          return;
+      }
+      const transferId = crypto.randomUUID();
+      const offer: FileOfferMessage = {
+          type: 'file-offer',
+          transferId,
+          fileName: file.name.slice(0, 255),
+          fileType: /^[\w.+-]+\/[\w.+-]+$/.test(file.type) ? file.type : 'application/octet-stream',
+          size: file.size,
+          totalChunks: countChunks(file.size),
+          hash: await hashBlob(file),
+          sender: peerId || '',
+          senderName: displayName,
+          lamport: ++lamportRef.current,
+          timestamp: Date.now()
+      };
+      outgoingFilesRef.current.set(transferId, { file, offer });
+      appendChatMessages([{
+          id: transferId, sender: offer.sender, senderName: displayName, timestamp: offer.timestamp, lamport: offer.lamport,
+          attachment: { transferId, fileName: offer.fileName, fileType: offer.fileType, size: file.size, url: URL.createObjectURL(file) }
+      }]);
+      peersRef.current.forEach(peer => {
+          if (peer.dataConn && peer.dataConn.open) offerFileTo(peer.dataConn, transferId);
+      });
+  };
+
+  // Also used to resume: the receiver answers a repeated offer with an ack of what it already has
+  const offerFileTo = (conn: DataConnection, transferId: string) => {
+      const entry = outgoingFilesRef.current.get(transferId);
+      if (!entry) return;
+      const key = transferKey(transferId, conn.peer);
+      const existing = outgoingTransfersRef.current.get(key);
+      if (existing && existing.state !== 'paused') return;
+      const t: OutgoingTransfer = { transferId, peerId: conn.peer, conn, acked: existing?.acked || 0, next: existing?.acked || 0, totalChunks: entry.offer.totalChunks, state: 'paused', pumping: false };
+      outgoingTransfersRef.current.set(key, t);
+      reportOutgoing(t);
+      sendTo(conn, entry.offer);
+  };
+
+  const pumpTransfer = async (t: OutgoingTransfer) => {
+      const entry = outgoingFilesRef.current.get(t.transferId);
+      if (!entry || t.pumping) return;
+      t.pumping = true;
+      try {
+          while (t.state === 'active' && t.conn.open && t.next < entry.offer.totalChunks && t.next < t.acked + TRANSFER_WINDOW) {
+              const index = t.next++;
+              const data = await readChunk(entry.file, index);
+              if (t.state !== 'active' || !t.conn.open) break;
+              sendTo(t.conn, { type: 'file-chunk', transferId: t.transferId, index, data });
+          }
+      } catch (e) {
+          console.error("Error reading file chunk", e);
+          t.state = 'failed';
+          reportOutgoing(t);
+      } finally {
+          t.pumping = false;
+      }
+  };
+
+  const finishIncoming = (conn: DataConnection, t: IncomingTransfer) => {
+      const blob = assembleFile(t);
+      if (t.hasher.digest() !== t.offer.hash) {
+          t.state = 'failed';
+          reportIncoming(t);
+          if (conn.open) sendTo(conn, { type: 'file-cancel', transferId: t.offer.transferId, reason: 'hash-mismatch' });
+          addLog(`${t.offer.fileName} est corrompu, transfert annulé`, 'error');
+          return;
+      }
+      t.state = 'done';
+      reportIncoming(t);
+      const url = URL.createObjectURL(blob);
+      updateChatHistory(prev => prev.map(m => (m.attachment?.transferId === t.offer.transferId ? { ...m, attachment: { ...m.attachment, url } } : m)));
+  };
+
+  const handleTransferMessage = (conn: DataConnection, senderId: string, data: FileTransferMessage) => {
+      switch (data.type) {
+          case 'file-offer': {
+              const existing = incomingTransfersRef.current.get(data.transferId);
+              if (existing) {
+                  if (existing.senderId !== senderId) return;
+                  if (existing.state === 'cancelled' || existing.state === 'failed') {
+                      sendTo(conn, { type: 'file-cancel', transferId: data.transferId, reason: 'cancelled' });
+                      return;
+                  }
+                  if (existing.state === 'paused') existing.state = 'active';
+                  reportIncoming(existing);
+                  sendTo(conn, { type: 'file-ack', transferId: data.transferId, received: existing.received });
+                  return;
+              }
+              if (data.totalChunks !== countChunks(data.size)) {
+                  console.warn(`Dropped file offer from ${senderId}: chunk count does not match size`);
+                  return;
+              }
+              const t: IncomingTransfer = { offer: data, senderId, parts: [], pending: [], hasher: createHasher(), received: 0, state: 'active' };
+              incomingTransfersRef.current.set(data.transferId, t);
+              reportIncoming(t);
+              playSound(SOUND_MESSAGE);
+              appendChatMessages([{
+                  id: data.transferId, sender: senderId, senderName: data.senderName, timestamp: data.timestamp, lamport: data.lamport,
+                  attachment: { transferId: data.transferId, fileName: data.fileName, fileType: data.fileType, size: data.size }
+              }]);
+              sendTo(conn, { type: 'file-ack', transferId: data.transferId, received: 0 });
+              break;
+          }
+          case 'file-chunk': {
+              const t = incomingTransfersRef.current.get(data.transferId);
+              if (!t || t.senderId !== senderId || t.state !== 'active') return;
+              // The channel is ordered, so anything but the next index is a leftover from before a resume
+              if (data.index !== t.received) return;
+              if (data.data.byteLength !== expectedChunkSize(t.offer.size, data.index)) {
+                  console.warn(`Dropped chunk ${data.index} of ${data.transferId}: unexpected size`);
+                  return;
+              }
+              receiveChunk(t, data.data);
+              sendTo(conn, { type: 'file-ack', transferId: data.transferId, received: t.received });
+              if (t.received === t.offer.totalChunks) finishIncoming(conn, t);
+              else reportIncoming(t);
+              break;
+          }
+          case 'file-ack': {
+              const t = outgoingTransfersRef.current.get(transferKey(data.transferId, senderId));
+              const entry = outgoingFilesRef.current.get(data.transferId);
+              if (!t || !entry || t.state === 'done' || t.state === 'cancelled' || t.state === 'failed') return;
+              if (t.state === 'paused') {
+                  // First ack after an offer tells us where the receiver wants us to start
+                  t.conn = conn;
+                  t.acked = data.received;
+                  t.next = data.received;
+                  t.state = 'active';
+              } else {
+                  t.acked = Math.max(t.acked, Math.min(data.received, t.next));
+              }
+              if (t.acked >= entry.offer.totalChunks) t.state = 'done';
+              reportOutgoing(t);
+              pumpTransfer(t);
+              break;
+          }
+          case 'file-cancel': {
+              const outgoing = outgoingTransfersRef.current.get(transferKey(data.transferId, senderId));
+              // A hash mismatch is only detected after the last ack, so it overrides 'done'
+              if (outgoing && (outgoing.state !== 'done' || data.reason === 'hash-mismatch')) {
+                  outgoing.state = data.reason === 'hash-mismatch' ? 'failed' : 'cancelled';
+                  reportOutgoing(outgoing);
+              }
+              const incoming = incomingTransfersRef.current.get(data.transferId);
+              if (incoming && incoming.senderId === senderId && incoming.state !== 'done') {
+                  incoming.state = 'cancelled';
+                  discardFile(incoming);
+                  reportIncoming(incoming);
+              }
+              break;
+          }
+      }
+  };
+
+  const cancelTransfer = (transferId: string) => {
+      outgoingTransfersRef.current.forEach(t => {
+          if (t.transferId !== transferId || t.state === 'done' || t.state === 'cancelled' || t.state === 'failed') return;
+          t.state = 'cancelled';
+          if (t.conn.open) sendTo(t.conn, { type: 'file-cancel', transferId, reason: 'cancelled' });
+          reportOutgoing(t);
+      });
+      const incoming = incomingTransfersRef.current.get(transferId);
+      if (incoming && (incoming.state === 'active' || incoming.state === 'paused')) {
+          incoming.state = 'cancelled';
+          discardFile(incoming);
+          const conn = peersRef.current.get(incoming.senderId)?.dataConn;
+          if (conn && conn.open) sendTo(conn, { type: 'file-cancel', transferId, reason: 'cancelled' });
+          reportIncoming(incoming);
+      }
+  };
+
+  // Called when a peer drops; whatever was in flight is resent after the next ack
+  const pauseTransfersWith = (id: string) => {
+      outgoingTransfersRef.current.forEach(t => {
+          if (t.peerId === id && t.state === 'active') { t.state = 'paused'; reportOutgoing(t); }
+      });
+      incomingTransfersRef.current.forEach(t => {
+          if (t.senderId === id && t.state === 'active') { t.state = 'paused'; reportIncoming(t); }
+      });
+  };
+
+  const resumeTransfersWith = (conn: DataConnection) => {
+      outgoingTransfersRef.current.forEach(t => {
+          if (t.peerId === conn.peer && t.state === 'paused') offerFileTo(conn, t.transferId);
+      });
+  };
+
+  // Leaving the room: nothing can resume any more, so the files, buffers and download
+  // links all go (the stored history has no URLs, see toSharedChatMessage)
+  const releaseTransfers = () => {
+      outgoingTransfersRef.current.forEach(t => { t.state = 'cancelled'; });
+      outgoingTransfersRef.current.clear();
+      outgoingFilesRef.current.clear();
+      incomingTransfersRef.current.forEach(t => { t.state = 'cancelled'; discardFile(t); });
+      incomingTransfersRef.current.clear();
+      chatHistoryRef.current.forEach(m => { if (m.attachment?.url) URL.revokeObjectURL(m.attachment.url); });
+      window.clearTimeout(progressTimerRef.current);
+      progressTimerRef.current = 0;
+      progressUpdatesRef.current.clear();
+      setTransfers(new Map());
+  };
+
+  // --- ADAPTIVE VIDEO ---
+  // Full quality until the peer says what it needs; our upload limit applies either way
+  const applyVideoLayerFor = (id: string) => {
+      const layer = requestedLayersRef.current.get(id) || 'high';
+      const sender = findVideoSender(linksRef.current.get(id)?.mediaCall?.peerConnection);
+      if (!sender) return;
+      const level = sendAdaptationRef.current.get(id)?.level || 0;
+      applyLayer(sender, layer, level, videoSendSettingsRef.current).catch(e => console.warn(`Could not apply ${layer} layer for ${id}`, e));
+  };
+
+  const applyScreenSendingFor = (id: string) => {
+      const sender = findVideoSender(screenCallsRef.current.get(id)?.peerConnection);
+      if (!sender) return;
+      applyScreenSending(sender, videoSendSettingsRef.current).catch(e => console.warn(`Could not limit screen share for ${id}`, e));
+  };
+
+  // Codec and limit go out to every sender straight away; calls answered from now on
+  // also get the codec preference
+  const updateVideoSendSettings = (patch: Partial<VideoSendSettings>) => {
+      const next = { ...videoSendSettingsRef.current, ...patch };
+      videoSendSettingsRef.current = next;
+      setVideoSendSettings(next);
+      saveVideoSendSettings(next);
+      if (!next.adaptive) sendAdaptationRef.current.clear();
+      linksRef.current.forEach((_, id) => applyVideoLayerFor(id));
+      screenCallsRef.current.forEach((_, id) => applyScreenSendingFor(id));
+  };
+
+  // Called on every stats poll; steps a peer's camera down or back up when its link changes
+  const adaptVideoFor = (id: string, stats: PeerStats) => {
+      if (!videoSendSettingsRef.current.adaptive) return 0;
+      const previous = sendAdaptationRef.current.get(id) || INITIAL_ADAPTATION;
+      // Without receiver reports yet, our own incoming loss is the best guess for the link
+      const next = adaptSending(previous, stats.packetLossOut ?? stats.packetLoss);
+      sendAdaptationRef.current.set(id, next);
+      if (next.level !== previous.level) applyVideoLayerFor(id);
+      return next.level;
+  };
+
+  const currentLayout = () => arrangeStage({
+      tiles: listTiles(!!screenStream, Array.from(peers.values()) as RemotePeer[]),
+      mode: layoutMode,
+      pinned: pinnedTiles,
+      activeSpeaker,
+  });
+
+  // Tell every sender which layer our layout needs from them whenever that changes:
+  // cameras on the stage in full, the filmstrip as thumbnails
+  useEffect(() => {
+      const layout = currentLayout();
+      const onStage = layout.arrangement === 'stage';
+      let changed = false;
+      peers.forEach((peer, id) => {
+          if (!peer.dataConn?.open || !handshakesRef.current.has(id)) return;
+          const layer = chooseLayer({
+              isVisible: isPageVisible && pinnedView !== 'activity',
+              isPinned: onStage && layout.stage.some(tile => tile.key === id),
+              somethingPinned: onStage,
+              memberCount: membership.members.length,
+          });
+          if (sentLayersRef.current.get(id) === layer) return;
+          sentLayersRef.current.set(id, layer);
+          changed = true;
+          sendTo(peer.dataConn, { type: 'video-layer', layer });
+      });
+      if (changed) setVideoOffPeers(new Set(Array.from(sentLayersRef.current).filter(([, layer]) => layer === 'off').map(([id]) => id)));
+  }, [peers, pinnedView, pinnedTiles, layoutMode, activeSpeaker, screenStream, membership, isPageVisible]);
+
+  // Whoever talks is promoted to the stage, once the current speaker has held it for a
+  // moment, so crosstalk doesn't make the layout flicker
+  useEffect(() => {
+      const speaking = (Array.from(peers.values()) as RemotePeer[]).filter(p => p.isSpeaking).map(p => p.id);
+      if (!speaking.length || (activeSpeaker && speaking.includes(activeSpeaker))) return;
+      if (activeSpeaker && peers.has(activeSpeaker) && Date.now() - speakerSinceRef.current < SPEAKER_HOLD_MS) return;
+      speakerSinceRef.current = Date.now();
+      setActiveSpeaker(speaking[0]);
+  }, [peers]);
+
+  const togglePin = (key: string) => {
+      setPinnedTiles(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  // --- WHITEBOARD LOGIC ---
+  const redrawWhiteboard = () => {
+      if (canvasRef.current) renderPage(canvasRef.current, wbDocRef.current, wbPageIdRef.current, wbViewRef.current, redrawWhiteboard);
+      wbMinimapDirtyRef.current = true;
+  };
+
+  const setBoardView = (view: BoardView) => {
+      wbViewRef.current = view;
+      setWbView(view);
+      redrawWhiteboard();
+      wbCursorOutRef.current.dirty = true; // Followers need our new viewport
+  };
+
+  // Pans and zooms we do ourselves end follow mode
+  const moveBoardView = (view: BoardView) => {
+      followPeer(null);
+      setBoardView(view);
+  };
+
+  // Merges entries into our replica of the board and repaints only what changed on screen.
+  // The board is kept in sync even while the whiteboard isn't open.
+  const receiveWhiteboardEntries = (entries: WhiteboardEntry[], senderId?: string, conn?: DataConnection) => {
+      const { delivered, pages, waiting } = receiveEntries(wbDocRef.current, entries);
+      if (waiting && senderId && conn) requestWhiteboardCatchUp(senderId, conn);
+      if (delivered.some(e => e.op.kind === 'update' || e.op.kind === 'hide' || e.op.kind === 'show')) refreshSelection();
+      if (delivered.some(e => e.op.kind === 'page-create' || e.op.kind === 'page-move' || e.op.kind === 'hide' || e.op.kind === 'show')) refreshPageList();
+      pages.forEach(page => wbThumbsDirtyRef.current.add(page));
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || !pages.includes(wbPageIdRef.current)) return;
+      if (delivered.some(e => e.op.kind !== 'stroke-begin' && e.op.kind !== 'stroke-extend')) {
+          redrawWhiteboard();
+          return;
+      }
+      delivered.forEach(({ op }) => {
+          if (op.kind !== 'stroke-begin' && op.kind !== 'stroke-extend') return;
+          const stroke = getStroke(wbDocRef.current, op.kind === 'stroke-begin' ? op.stroke.id : op.strokeId);
+          if (stroke && !stroke.hidden && stroke.page === wbPageIdRef.current) drawStroke(ctx, stroke, op.kind === 'stroke-extend' ? op.from : 0);
+      });
+      wbMinimapDirtyRef.current = true;
+  };
+
+  // Something arrived before its predecessors: ask that peer for what we're missing
+  const requestWhiteboardCatchUp = (peerId: string, conn: DataConnection) => {
+      const now = Date.now();
+      if (now - (wbResyncAtRef.current.get(peerId) || 0) < RESYNC_INTERVAL_MS) return;
+      wbResyncAtRef.current.set(peerId, now);
+      sendTo(conn, { type: 'whiteboard-sync', vector: wbDocRef.current.vector });
+  };
+
+  const sendWhiteboardOps = (ops: WhiteboardOp[]) => {
+      ops.forEach(op => {
+          const entry = createEntry(wbDocRef.current, wbReplicaRef.current, op);
+          receiveWhiteboardEntries([entry]);
+          broadcastData({ type: 'whiteboard', entries: [entry] });
+      });
+  };
+
+  // Where a pointer is on screen (CSS pixels from the canvas corner) and in the world
+  const screenPoint = (e: { clientX: number; clientY: number }) => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const boardPoint = (e: { clientX: number; clientY: number; pointerType?: string; pressure?: number }): StrokePoint => {
+      const s = screenPoint(e);
+      const point: StrokePoint = toBoard(wbViewRef.current, s.x, s.y);
+      // Only pens report real pressure; mice and most touch screens send a constant
+      if (e.pointerType === 'pen' && e.pressure !== undefined) point.p = Math.round(e.pressure * 1000) / 1000;
+      return point;
+  };
+
+  const newShape = (kind: BoardShape['kind'], frame: BoardFrame): BoardShape => ({
+      id: crypto.randomUUID(), author: peerRef.current?.id || '', page: wbPageId, color: wbColor, size: wbSize, kind, ...frame,
+  });
+
+  const beginStroke = (point: StrokePoint) => {
+      const stroke: Stroke = { id: crypto.randomUUID(), author: peerRef.current?.id || '', page: wbPageId, kind: 'stroke', color: wbColor, size: wbSize, isEraser: wbTool === 'eraser', points: [point] };
+      wbActiveStrokeRef.current = stroke;
+      wbSentPointsRef.current = 1;
+      sendWhiteboardOps([{ kind: 'stroke-begin', stroke }]);
+  };
+
+  const extendStroke = (point: StrokePoint) => {
+      const active = wbActiveStrokeRef.current;
+      const stroke = active && getStroke(wbDocRef.current, active.id);
+      if (!stroke || stroke.points.length >= MAX_STROKE_POINTS) return;
+      // Drawn ahead of the log; the flush writes the same points at the same offsets
+      stroke.points.push(point);
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) drawStroke(ctx, stroke, stroke.points.length - 1);
+  };
+
+  // Sends the points drawn since the last flush
+  const flushActiveStroke = () => {
+      const active = wbActiveStrokeRef.current;
+      const stroke = active && getStroke(wbDocRef.current, active.id);
+      if (!stroke || wbSentPointsRef.current >= stroke.points.length) return;
+      const from = wbSentPointsRef.current;
+      const points = stroke.points.slice(from, from + MAX_OP_ITEMS);
+      wbSentPointsRef.current = from + points.length;
+      const entry = createEntry(wbDocRef.current, wbReplicaRef.current, { kind: 'stroke-extend', strokeId: stroke.id, from, points });
+      receiveEntries(wbDocRef.current, [entry]);
+      broadcastData({ type: 'whiteboard', entries: [entry] });
+  };
+
+  const endStroke = () => {
+      const active = wbActiveStrokeRef.current;
+      if (!active) return;
+      while (wbSentPointsRef.current < (getStroke(wbDocRef.current, active.id)?.points.length || 0)) flushActiveStroke();
+      wbActiveStrokeRef.current = null;
+      pushUndo({ kind: 'create', objectIds: [active.id] });
+  };
+
+  // --- Selection & Objects ---
+  // Strokes can be selected and deleted; everything else can also be moved and resized.
+  // The handle sits at (x + w, y + h): a box's corner, or a line's end point.
+  const selectionFor = (id: string | null) => {
+      const object = id ? getObject(wbDocRef.current, id) : undefined;
+      if (!object || object.hidden) return null;
+      return { id: object.id, bounds: objectBounds(object), handle: object.kind === 'stroke' ? null : { x: object.x + object.w, y: object.y + object.h } };
+  };
+
+  const refreshSelection = () => setWbSelection(current => current && selectionFor(current.id));
+
+  const placeShape = (shape: BoardShape) => {
+      sendWhiteboardOps([{ kind: 'create', object: shape }]);
+      pushUndo({ kind: 'create', objectIds: [shape.id] });
+  };
+
+  const deleteSelection = () => {
+      if (!wbSelection) return;
+      sendWhiteboardOps([{ kind: 'hide', objectIds: [wbSelection.id] }]);
+      pushUndo({ kind: 'delete', objectIds: [wbSelection.id] });
+      setWbSelection(null);
+  };
+
+  const openTextEditor = (shape: BoardShape, isNew: boolean) => {
+      setWbSelection(null);
+      setWbEditor({ shape, isNew, text: shape.text || '' });
+  };
+
+  const commitTextEditor = () => {
+      const editor = wbEditor;
+      setWbEditor(null);
+      if (!editor) return;
+      const text = editor.text.slice(0, MAX_BOARD_TEXT);
+      if (editor.isNew) {
+          if (text.trim()) placeShape({ ...editor.shape, text });
+          return;
+      }
+      const object = getObject(wbDocRef.current, editor.shape.id);
+      if (!object || object.kind === 'stroke' || object.text === text) return;
+      const after = { text };
+      const before = patchOf(object, after);
+      sendWhiteboardOps([{ kind: 'update', objectId: object.id, patch: after }]);
+      pushUndo({ kind: 'update', objectId: object.id, before, after });
+  };
+
+  // Pasted or picked images are dropped in the middle of what we're looking at
+  const placeImage = async (file: Blob) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      try {
+          const { src, width, height } = await loadBoardImage(file);
+          const viewport = viewportOf(wbViewRef.current, canvas.width, canvas.height);
+          const w = Math.min(BOARD_IMAGE_WIDTH, viewport.w * 0.6);
+          const h = w * height / width;
+          placeShape({ ...newShape('image', { x: viewport.x + (viewport.w - w) / 2, y: viewport.y + (viewport.h - h) / 2, w, h }), src });
+      } catch (e) {
+          console.warn('Whiteboard image rejected', e);
+          addLog("Image illisible ou trop lourde.", "error");
+      }
+  };
+
+  const onBoardPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (e.pointerType === 'touch') {
+          wbTouchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+          if (wbTouchesRef.current.size === 2) startPinch();
+          if (wbTouchesRef.current.size > 1) return;
+      } else if (e.button !== 0) {
+          return;
+      }
+      const point = boardPoint(e);
+      const { x, y } = point;
+      switch (wbTool) {
+          case 'pen':
+          case 'eraser':
+              beginStroke(point);
+              break;
+          case 'select': {
+              const object = hitTest(wbDocRef.current, wbPageId, x, y, BOARD_HIT_TOLERANCE / wbViewRef.current.zoom);
+              setWbSelection(selectionFor(object?.id || null));
+              if (object && object.kind !== 'stroke') wbGestureRef.current = { mode: 'move', id: object.id, start: { x, y }, before: frameOf(object) };
+              break;
+          }
+          case 'text':
+              openTextEditor(newShape('text', { x, y, w: 240, h: 60 }), true);
+              break;
+          case 'note':
+              openTextEditor(newShape('note', { x, y, w: 180, h: 180 }), true);
+              break;
+          default:
+              wbGestureRef.current = { mode: 'draw', shape: newShape(wbTool, { x, y, w: 0, h: 0 }) };
+      }
+  };
+
+  const onBoardPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.isPrimary) moveBoardCursor(boardPoint(e));
+      if (wbTouchesRef.current.has(e.pointerId)) {
+          wbTouchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+          if (wbPinchRef.current) {
+              updatePinch();
+              return;
+          }
+      }
+      if (wbActiveStrokeRef.current) {
+          // Drawn locally right away; the sync interval sends the points. Coalesced
+          // events carry the samples the browser merged between two frames.
+          const samples = e.nativeEvent.getCoalescedEvents?.() || [];
+          (samples.length ? samples : [e.nativeEvent]).forEach(sample => extendStroke(boardPoint(sample)));
+          return;
+      }
+      const gesture = wbGestureRef.current;
+      if (!gesture) return;
+      const { x, y } = boardPoint(e);
+      if (gesture.mode === 'draw') {
+          Object.assign(gesture.shape, { w: x - gesture.shape.x, h: y - gesture.shape.y });
+          redrawWhiteboard();
+          const ctx = canvasRef.current?.getContext('2d');
+          if (ctx) drawShape(ctx, gesture.shape);
+          return;
+      }
+      // Previewed in our copy only; the op sent on release overwrites it everywhere
+      const object = getObject(wbDocRef.current, gesture.id);
+      if (!object || object.kind === 'stroke') return;
+      const { before, start } = gesture;
+      const dx = x - start.x, dy = y - start.y;
+      const resized = isLineKind(object.kind)
+          ? { ...before, w: before.w + dx, h: before.h + dy }
+          : { ...before, w: Math.max(MIN_SHAPE_SIZE, before.w + dx), h: Math.max(MIN_SHAPE_SIZE, before.h + dy) };
+      Object.assign(object, clampFrame(gesture.mode === 'move' ? { ...before, x: before.x + dx, y: before.y + dy } : resized));
+      redrawWhiteboard();
+      refreshSelection();
+  };
+
+  const onBoardPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      wbTouchesRef.current.delete(e.pointerId);
+      if (wbPinchRef.current) {
+          if (wbTouchesRef.current.size < 2) wbPinchRef.current = null;
+          return;
+      }
+      endStroke();
+      const gesture = wbGestureRef.current;
+      wbGestureRef.current = null;
+      if (!gesture) return;
+      if (gesture.mode === 'draw') {
+          const { shape } = gesture;
+          const threshold = 3 / wbViewRef.current.zoom;
+          if (Math.abs(shape.w) < threshold && Math.abs(shape.h) < threshold) {
+              redrawWhiteboard();
+              return;
+          }
+          placeShape(isLineKind(shape.kind) ? shape : { ...shape, ...normalizeFrame(shape) });
+          return;
+      }
+      const object = getObject(wbDocRef.current, gesture.id);
+      if (!object || object.kind === 'stroke') return;
+      const after = { frame: frameOf(object) };
+      if (JSON.stringify(after.frame) === JSON.stringify(gesture.before)) return;
+      sendWhiteboardOps([{ kind: 'update', objectId: object.id, patch: after }]);
+      pushUndo({ kind: 'update', objectId: object.id, before: { frame: gesture.before }, after });
+  };
+
+  const onBoardDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (wbTool !== 'select') return;
+      const { x, y } = boardPoint(e);
+      const object = hitTest(wbDocRef.current, wbPageId, x, y, BOARD_HIT_TOLERANCE / wbViewRef.current.zoom);
+      if (object && (object.kind === 'text' || object.kind === 'note')) openTextEditor(object, false);
+  };
+
+  // The selection handle starts a resize; the canvas captures the pointer from there
+  const startResize = (e: React.PointerEvent) => {
+      const object = wbSelection && getObject(wbDocRef.current, wbSelection.id);
+      if (!object || object.kind === 'stroke' || !canvasRef.current) return;
+      e.stopPropagation();
+      canvasRef.current.setPointerCapture(e.pointerId);
+      wbGestureRef.current = { mode: 'resize', id: object.id, start: boardPoint(e), before: frameOf(object) };
+  };
+
+  // --- Pan & Zoom ---
+  // A second finger turns whatever the first one started into a pinch: the stroke or
+  // shape in progress is dropped and a drag is put back where it began.
+  const abandonBoardGesture = () => {
+      const active = wbActiveStrokeRef.current;
+      if (active) {
+          endStroke();
+          wbUndoRef.current.pop();
+          syncStackSizes();
+          sendWhiteboardOps([{ kind: 'hide', objectIds: [active.id] }]);
+      }
+      const gesture = wbGestureRef.current;
+      wbGestureRef.current = null;
+      if (gesture && gesture.mode !== 'draw') {
+          const object = getObject(wbDocRef.current, gesture.id);
+          if (object && object.kind !== 'stroke') Object.assign(object, gesture.before);
+          refreshSelection();
+      }
+      redrawWhiteboard();
+  };
+
+  // CSS placement of world coordinates over the canvas, following our zoom/pan
+  const boardBoxStyle = (frame: BoardFrame) => {
+      const { x, y, w, h } = toScreen(wbView, frame);
+      return { left: x, top: y, width: w, height: h };
+  };
+
+  const boardPointStyle = (point: { x: number; y: number }) => {
+      const { x, y } = toScreen(wbView, { ...point, w: 0, h: 0 });
+      return { left: x, top: y };
+  };
+
+  const pinchSpan = () => {
+      const [a, b] = Array.from(wbTouchesRef.current.values());
+      return { mid: screenPoint({ clientX: (a.x + b.x) / 2, clientY: (a.y + b.y) / 2 }), distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)) };
+  };
+
+  const startPinch = () => {
+      abandonBoardGesture();
+      wbPinchRef.current = { view: wbViewRef.current, ...pinchSpan() };
+  };
+
+  // Zooms by how far the fingers spread and keeps the page point that was between them under them
+  const updatePinch = () => {
+      const start = wbPinchRef.current;
+      if (!start || wbTouchesRef.current.size < 2) return;
+      const { mid, distance } = pinchSpan();
+      const zoom = clampView({ ...start.view, zoom: start.view.zoom * distance / start.distance }).zoom;
+      const anchor = toBoard(start.view, start.mid.x, start.mid.y);
+      moveBoardView(clampView({ zoom, x: anchor.x - mid.x / zoom, y: anchor.y - mid.y / zoom }));
+  };
+
+  // Ctrl/Cmd + wheel (and trackpad pinch, which browsers report the same way) zooms; the wheel alone pans
+  useEffect(() => {
+      const canvas = canvasRef.current;
+      if (activityView?.type !== 'whiteboard' || !canvas) return;
+      const onWheel = (e: WheelEvent) => {
+          e.preventDefault();
+          const view = wbViewRef.current;
+          if (e.ctrlKey || e.metaKey) {
+              const s = screenPoint(e);
+              moveBoardView(zoomAt(view, s.x, s.y, view.zoom * Math.exp(-e.deltaY * 0.01)));
+          } else {
+              moveBoardView(clampView({ ...view, x: view.x + e.deltaX / view.zoom, y: view.y + e.deltaY / view.zoom }));
+          }
+      };
+      canvas.addEventListener('wheel', onWheel, { passive: false });
+      return () => canvas.removeEventListener('wheel', onWheel);
+  }, [activityView]);
+
+  // --- Minimap ---
+  // Redrawn at most a few times a second; it only needs to roughly track the board
+  const refreshMinimap = () => {
+      const canvas = canvasRef.current, minimap = wbMinimapRef.current;
+      const now = Date.now();
+      if (!wbMinimapDirtyRef.current || !canvas || !minimap || now - wbMinimapDrawnAtRef.current < MINIMAP_INTERVAL_MS) return;
+      wbMinimapDirtyRef.current = false;
+      wbMinimapDrawnAtRef.current = now;
+      wbMinimapViewRef.current = renderMinimap(minimap, wbDocRef.current, wbPageIdRef.current, viewportOf(wbViewRef.current, canvas.width, canvas.height));
+  };
+
+  // Clicking or dragging on the minimap centres our view on that spot
+  const onMinimapPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const minimapView = wbMinimapViewRef.current, canvas = canvasRef.current;
+      if (!minimapView || !canvas || (e.type === 'pointermove' && !e.buttons)) return;
+      if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+      const rect = e.currentTarget.getBoundingClientRect();
+      const target = toBoard(minimapView, e.clientX - rect.left, e.clientY - rect.top);
+      const view = wbViewRef.current;
+      moveBoardView(clampView({ ...view, x: target.x - canvas.width / view.zoom / 2, y: target.y - canvas.height / view.zoom / 2 }));
+  };
+
+  // --- Live Cursors & Follow Mode ---
+  const moveBoardCursor = (cursor: { x: number; y: number } | null) => {
+      wbCursorOutRef.current.cursor = cursor;
+      wbCursorOutRef.current.dirty = true;
+  };
+
+  // Called from the sync interval: at most one cursor message per CURSOR_INTERVAL_MS.
+  // The viewport rides along so whoever follows us sees what we see.
+  const flushBoardCursor = () => {
+      const out = wbCursorOutRef.current;
+      const canvas = canvasRef.current;
+      const now = Date.now();
+      if (!out.dirty || !canvas || now - out.sentAt < CURSOR_INTERVAL_MS) return;
+      out.dirty = false;
+      out.sentAt = now;
+      broadcastData({ type: 'activity', activityType: 'whiteboard', action: 'cursor', data: {
+          cursor: out.cursor, viewport: viewportOf(wbViewRef.current, canvas.width, canvas.height), pageId: wbPageIdRef.current,
+      } });
+  };
+
+  const receiveBoardCursor = (peerId: string, data: ActivityMessage['data']) => {
+      if (!data?.viewport) return;
+      const remote: RemoteCursor = { cursor: data.cursor || null, viewport: data.viewport, page: data.pageId || FIRST_PAGE_ID, at: Date.now() };
+      setWbRemoteCursors(prev => new Map(prev).set(peerId, remote));
+      if (wbFollowingRef.current === peerId) showRemoteViewport(remote);
+  };
+
+  // Fits their viewport into our canvas and goes to their page
+  const showRemoteViewport = ({ viewport, page }: RemoteCursor) => {
+      const canvas = canvasRef.current;
+      if (page !== wbPageIdRef.current) setWbPageId(page);
+      if (canvas) setBoardView(clampView(fitFrame(viewport, canvas.width, canvas.height)));
+  };
+
+  const followPeer = (peerId: string | null) => {
+      if (wbFollowingRef.current === peerId) return;
+      wbFollowingRef.current = peerId;
+      setWbFollowing(peerId);
+      const remote = peerId && wbRemoteCursors.get(peerId);
+      if (remote) showRemoteViewport(remote);
+  };
+
+  // Peers who left are dropped; a cursor that went quiet is hidden but its viewport stays followable
+  useEffect(() => {
+      const interval = setInterval(() => {
+          const now = Date.now();
+          setWbRemoteCursors(prev => {
+              const stale = Array.from(prev.entries()).filter(([id, remote]) => !peersRef.current.has(id) || (remote.cursor && now - remote.at > CURSOR_TIMEOUT_MS));
+              if (!stale.length) return prev;
+              const next = new Map(prev);
+              stale.forEach(([id, remote]) => {
+                  if (peersRef.current.has(id)) next.set(id, { ...remote, cursor: null });
+                  else next.delete(id);
+              });
+              return next;
+          });
+          if (wbFollowingRef.current && !peersRef.current.has(wbFollowingRef.current)) followPeer(null);
+      }, CURSOR_TIMEOUT_MS / 2);
+      return () => clearInterval(interval);
+  }, []);
+
+  // --- Pages ---
+  // Rebuilds the list after page ops; if our page was deleted we land on the one that took its place
+  const refreshPageList = () => {
+      const previous = wbPagesRef.current;
+      const pages = orderedPages(wbDocRef.current);
+      wbPagesRef.current = pages;
+      setWbPages(pages);
+      const current = wbPageIdRef.current;
+      if (!wbDocRef.current.pageList.get(current)?.hidden || !pages.length) return;
+      const index = Math.max(0, previous.findIndex(p => p.id === current));
+      setWbPageId(pages[Math.min(index, pages.length - 1)].id);
+  };
+
+  const goToPage = (pageId: string) => {
+      setWbPageId(pageId);
+      if (wbPageModeRef.current !== 'shared') return;
+      wbPresenterPageRef.current = pageId;
+      broadcastData({ type: 'activity', activityType: 'whiteboard', action: 'set-page', data: { pageId } });
+  };
+
+  const changePageMode = (mode: 'shared' | 'free') => {
+      wbPageModeRef.current = mode;
+      setWbPageMode(mode);
+      if (mode === 'shared' && wbPresenterPageRef.current) setWbPageId(wbPresenterPageRef.current);
+  };
+
+  // Adds a page after `afterId`, optionally with a copy of that page's objects
+  const addPage = (afterId: string, duplicate = false) => {
+      const list = wbPagesRef.current;
+      const index = list.findIndex(p => p.id === afterId);
+      const page = { id: crypto.randomUUID(), position: positionBetween(list[index], list[index + 1]) };
+      const copy = duplicate
+          ? copyObjectOps(visibleObjects(wbDocRef.current, afterId), page.id, peerRef.current?.id || '')
+          : { ops: [], objectIds: [] };
+      sendWhiteboardOps([{ kind: 'page-create', page }, ...copy.ops]);
+      pushUndo({ kind: 'create', objectIds: [page.id, ...copy.objectIds] });
+      goToPage(page.id);
+  };
+
+  // Deleting hides the page (its objects stay with it), so it can be undone
+  const deletePage = (pageId: string) => {
+      if (wbPagesRef.current.length <= 1) return;
+      sendWhiteboardOps([{ kind: 'hide', objectIds: [pageId] }]);
+      pushUndo({ kind: 'delete', objectIds: [pageId] });
+  };
+
+  // Puts a page at `index` in the list as it would be without it
+  const movePage = (pageId: string, index: number) => {
+      const page = wbDocRef.current.pageList.get(pageId);
+      const others = wbPagesRef.current.filter(p => p.id !== pageId);
+      if (!page || index < 0 || index > others.length) return;
+      const before = page.position;
+      const after = positionBetween(others[index - 1], others[index]);
+      sendWhiteboardOps([{ kind: 'page-move', pageId, position: after }]);
+      pushUndo({ kind: 'move-page', pageId, before, after });
+  };
+
+  // Thumbnails of changed pages, redrawn at most every THUMBNAIL_INTERVAL_MS
+  const refreshThumbnails = () => {
+      const now = Date.now();
+      if (!wbThumbsDirtyRef.current.size || now - wbThumbsDrawnAtRef.current < THUMBNAIL_INTERVAL_MS) return;
+      wbThumbsDrawnAtRef.current = now;
+      wbThumbsDirtyRef.current.forEach(pageId => {
+          const canvas = wbThumbsRef.current.get(pageId);
+          if (canvas?.isConnected) renderMinimap(canvas, wbDocRef.current, pageId);
+          else wbThumbsRef.current.delete(pageId);
+      });
+      wbThumbsDirtyRef.current.clear();
+  };
+
+  const pageNumber = (pageId: string) => wbPages.findIndex(p => p.id === pageId) + 1;
+
+  // --- Undo / Redo (our own actions only) ---
+  const syncStackSizes = () => setWbStackSizes({ undo: wbUndoRef.current.length, redo: wbRedoRef.current.length });
+
+  const pushUndo = (entry: UndoEntry) => {
+      wbUndoRef.current.push(entry);
+      wbRedoRef.current = [];
+      syncStackSizes();
+  };
+
+  const undoWhiteboard = () => {
+      const entry = wbUndoRef.current.pop();
+      if (!entry) return;
+      sendWhiteboardOps(undoOps(entry, false));
+      wbRedoRef.current.push(entry);
+      syncStackSizes();
+  };
+
+  const redoWhiteboard = () => {
+      const entry = wbRedoRef.current.pop();
+      if (!entry) return;
+      sendWhiteboardOps(undoOps(entry, true));
+      wbUndoRef.current.push(entry);
+      syncStackSizes();
   };
 
-  // --- ACTIVITY HANDLERS ---
-  const handleActivityMessage = (senderId: string, data: ActivityMessage) => {
-    if (data.activityType === 'youtube' && activityView?.type === 'youtube') {
-         if (data.action === 'sync-state' && playerRef.current) {
-             isRemoteUpdateRef.current = true;
-             const { playerState, currentTime } = data.data!;
-             const myTime = playerRef.current.getCurrentTime();
-             if (Math.abs(myTime - (currentTime || 0)) > 1.5) playerRef.current.seekTo(currentTime, true);
-             if (playerState === 1 && playerRef.current.getPlayerState() !== 1) playerRef.current.playVideo();
-             else if (playerState === 2) playerRef.current.pauseVideo();
-             setTimeout(() => { isRemoteUpdateRef.current = false; }, 800);
-         } else if (data.action === 'add-queue') {
-             if(data.data?.queueItem) setYoutubeQueue(prev => [...prev, data.data!.queueItem!]);
-         } else if (data.action === 'remove-queue') {
-             if(data.data?.videoId) setYoutubeQueue(prev => prev.filter(i => i.id !== data.data!.videoId));
-         } else if (data.action === 'play-queue') {
-             if(data.data?.queueItem) {
-                 setCurrentVideo(data.data.queueItem);
-                 if(playerRef.current) playerRef.current.loadVideoById(data.data.queueItem.videoId);
-             }
-         } else if (data.action === 'update-queue') {
-             if (data.data?.queue) setYoutubeQueue(data.data.queue);
-         }
-    } 
-    else if (data.activityType === 'whiteboard') {
-        if (activityView?.type !== 'whiteboard') return; 
-        
-        // Handle Single Line (Legacy/Sync)
-        if (data.action === 'draw' && data.data?.drawData) {
-            const page = data.data.pageIndex || 0;
-            if(!wbHistoryRef.current.has(page)) wbHistoryRef.current.set(page, []);
-            wbHistoryRef.current.get(page)?.push(data.data.drawData);
-            if (page === wbPageIndex && canvasRef.current) {
-                drawOnCanvas(data.data.drawData, canvasRef.current);
-            }
-        } 
-        // Handle Batched Lines (Optimized)
-        else if (data.action === 'draw-batch' && data.data?.drawBatch) {
-             const page = data.data.pageIndex || 0;
-             if(!wbHistoryRef.current.has(page)) wbHistoryRef.current.set(page, []);
-             const history = wbHistoryRef.current.get(page);
-             
-             data.data.drawBatch.forEach(line => {
-                 history?.push(line);
-                 if (page === wbPageIndex && canvasRef.current) {
-                     drawOnCanvas(line, canvasRef.current);
-                 }
-             });
-        }
-        else if (data.action === 'clear') {
-             if(canvasRef.current && wbPageIndex === wbPageIndex) {
-                 const ctx = canvasRef.current.getContext('2d');
-                 ctx?.clearRect(0,0, canvasRef.current.width, canvasRef.current.height);
-             }
-             wbHistoryRef.current.set(wbPageIndex, []);
-        } else if (data.action === 'set-page' && typeof data.data?.pageIndex === 'number') {
-             setWbPageIndex(data.data.pageIndex);
-        } else if (data.action === 'sync-request') {
-             // Send full history to new peer
-             const allHistory: any[] = [];
-             wbHistoryRef.current.forEach((lines, page) => {
-                 // We can optimize sync by sending batches too
-                 if (lines.length > 0) {
-                    allHistory.push({ action: 'draw-batch', data: { drawBatch: lines, pageIndex: page }});
-                 }
-             });
-             const peer = peersRef.current.get(senderId);
-             if (peer && peer.dataConn) {
-                 allHistory.forEach(msg => {
-                     peer.dataConn!.send({ type: 'activity', activityType: 'whiteboard', ...msg });
-                 });
-             }
-        }
-    }
+  // Clearing hides every visible object on the page, so it can be undone like anything else
+  const clearWhiteboardPage = () => {
+      const ids = visibleObjects(wbDocRef.current, wbPageId).map(o => o.id);
+      if (!ids.length) return;
+      sendWhiteboardOps(splitIdOps('hide', ids));
+      pushUndo({ kind: 'delete', objectIds: ids });
+      setWbSelection(null);
   };
 
-  // --- WHITEBOARD LOGIC ---
-  const drawOnCanvas = (data: DrawLine, canvas: HTMLCanvasElement) => {
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      const w = canvas.width;
-      const h = canvas.height;
-      
-      // Relative coordinates conversion
-      const x = data.x * w;
-      const y = data.y * h;
-      const px = data.prevX * w;
-      const py = data.prevY * h;
-      
-      ctx.lineWidth = data.size;
-      ctx.lineCap = 'round';
-      ctx.strokeStyle = data.isEraser ? '#FFFFFF' : data.color;
-      ctx.globalCompositeOperation = data.isEraser ? 'destination-out' : 'source-over';
-      ctx.beginPath();
-      ctx.moveTo(px, py);
-      ctx.lineTo(x, y);
-      ctx.stroke();
+  useEffect(() => {
+      if (activityView?.type !== 'whiteboard') return;
+      const isTyping = (target: EventTarget | null) => !!(target as HTMLElement | null)?.closest?.('input, textarea');
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (isTyping(e.target)) return;
+          const key = e.key.toLowerCase();
+          if ((key === 'delete' || key === 'backspace') && wbSelection) { e.preventDefault(); deleteSelection(); }
+          else if (key === 'escape') setWbSelection(null);
+          if (!(e.ctrlKey || e.metaKey)) return;
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); undoWhiteboard(); }
+          else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redoWhiteboard(); }
+      };
+      const onPaste = (e: ClipboardEvent) => {
+          if (isTyping(e.target)) return;
+          const image = Array.from(e.clipboardData?.files || []).find(f => f.type.startsWith('image/'));
+          if (!image) return;
+          e.preventDefault();
+          placeImage(image);
+      };
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('paste', onPaste);
+      return () => {
+          window.removeEventListener('keydown', onKeyDown);
+          window.removeEventListener('paste', onPaste);
+      };
+  });
+
+  // The board belongs to the room; a new replica ID keeps our seq numbers fresh if we come back
+  const resetWhiteboard = () => {
+      wbDocRef.current = createWhiteboardDoc();
+      wbReplicaRef.current = crypto.randomUUID();
+      wbResyncAtRef.current.clear();
+      wbActiveStrokeRef.current = null;
+      wbGestureRef.current = null;
+      wbTouchesRef.current.clear();
+      wbPinchRef.current = null;
+      wbViewRef.current = DEFAULT_VIEW;
+      setWbView(DEFAULT_VIEW);
+      wbMinimapViewRef.current = null;
+      wbCursorOutRef.current = { cursor: null, sentAt: 0, dirty: false };
+      wbFollowingRef.current = null;
+      setWbFollowing(null);
+      setWbRemoteCursors(new Map());
+      wbUndoRef.current = [];
+      wbRedoRef.current = [];
+      syncStackSizes();
+      setWbSelection(null);
+      setWbEditor(null);
+      setWbPageId(FIRST_PAGE_ID);
+      wbPageIdRef.current = FIRST_PAGE_ID;
+      wbPagesRef.current = orderedPages(wbDocRef.current);
+      setWbPages(wbPagesRef.current);
+      changePageMode('shared');
+      wbPresenterPageRef.current = null;
+      wbThumbsRef.current.clear();
+      wbThumbsDirtyRef.current.clear();
   };
 
   const startWhiteboard = () => {
@@ -671,7 +2568,6 @@ export default function App() {
     setPinnedView('activity');
     setMyCurrentActivity('whiteboard');
     broadcastData({ type: 'status', muted: isMuted, deafened: isDeafened, videoEnabled: isVideoEnabled, isScreenSharing: isScreenSharing, currentActivity: 'whiteboard' });
-    if(!wbHistoryRef.current.has(0)) wbHistoryRef.current.set(0, []);
   };
 
   const downloadWhiteboard = () => {
@@ -692,11 +2588,65 @@ export default function App() {
     tCtx.drawImage(canvas, 0, 0);
     
     const link = document.createElement('a');
-    link.download = `dessin-cosmos-${wbPageIndex+1}.png`;
+    link.download = `dessin-cosmos-${pageNumber(wbPageId)}.png`;
     link.href = tempCanvas.toDataURL('image/png');
     link.click();
   };
 
+  // --- Whiteboard Export & Import (vector, from the board model) ---
+  const downloadBlob = (blob: Blob, fileName: string) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = fileName;
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const exportPages = (all: boolean) => all ? wbPages.map(p => p.id) : [wbPageId];
+
+  const exportWhiteboardSvg = (all: boolean) => {
+      exportPages(all).forEach(page =>
+          downloadBlob(new Blob([pageToSvg(wbDocRef.current, page)], { type: 'image/svg+xml' }), `dessin-cosmos-${pageNumber(page)}.svg`));
+  };
+
+  const exportWhiteboardPdf = async (all: boolean) => {
+      try {
+          const pages = exportPages(all);
+          downloadBlob(await pagesToPdf(wbDocRef.current, pages), all ? 'dessin-cosmos.pdf' : `dessin-cosmos-${pageNumber(pages[0])}.pdf`);
+      } catch (e) {
+          console.error('Whiteboard PDF export failed', e);
+          addLog("Impossible de générer le PDF.", "error");
+      }
+  };
+
+  const saveWhiteboardFile = () => {
+      downloadBlob(new Blob([JSON.stringify(boardToFile(wbDocRef.current))], { type: 'application/json' }), 'tableau-cosmos.json');
+  };
+
+  // A loaded board's pages are added after ours, for everyone, as one undoable step
+  const loadWhiteboardFile = async (file: Blob) => {
+      let raw: unknown;
+      try {
+          raw = JSON.parse(await file.text());
+      } catch (e) {
+          addLog("Ce fichier n'est pas un tableau valide.", "error");
+          return;
+      }
+      const result = validateBoardFile(raw);
+      if (!result.ok) {
+          console.warn('Rejected whiteboard file:', result.reason);
+          addLog("Ce fichier n'est pas un tableau valide.", "error");
+          return;
+      }
+      const { ops, pageIds, objectIds } = fileToOps(wbDocRef.current, result.file, peerRef.current?.id || '');
+      if (!pageIds.length) return;
+      sendWhiteboardOps(ops);
+      pushUndo({ kind: 'create', objectIds: [...pageIds, ...objectIds] });
+      goToPage(pageIds[0]);
+      addLog(`Tableau chargé (${pageIds.length} page${pageIds.length > 1 ? 's' : ''} ajoutée${pageIds.length > 1 ? 's' : ''})`, "success");
+  };
+
   // --- YOUTUBE LOGIC ---
   const startYoutubeActivity = () => {
       setActivityView({ type: 'youtube' });
@@ -705,8 +2655,8 @@ export default function App() {
       broadcastData({ type: 'status', muted: isMuted, deafened: isDeafened, videoEnabled: isVideoEnabled, isScreenSharing: isScreenSharing, currentActivity: 'youtube' });
   };
 
-  const addToQueue = async () => {
-      const id = getYoutubeId(youtubeInput);
+  const addToQueue = async (url: string = youtubeInput) => {
+      const id = getYoutubeId(url);
       if (!id) return;
       
       const meta = await fetchVideoMeta(id);
@@ -724,7 +2674,7 @@ export default function App() {
           broadcastData({ type: 'activity', activityType: 'youtube', action: 'add-queue', data: { queueItem: newItem } });
           return newQueue;
       });
-      setYoutubeInput('');
+      if (url === youtubeInput) setYoutubeInput('');
 
       // Auto play if first
       if (!currentVideo && youtubeQueue.length === 0) {
@@ -732,6 +2682,13 @@ export default function App() {
       }
   };
 
+  // "Add to queue" on a YouTube link pasted in the chat
+  const queueFromChat = (url: string) => {
+      if (activityView?.type !== 'youtube') startYoutubeActivity();
+      addToQueue(url);
+      addLog("Ajouté à la file YouTube", 'success');
+  };
+
   const playVideo = (item: QueueItem) => {
       setCurrentVideo(item);
       broadcastData({ type: 'activity', activityType: 'youtube', action: 'play-queue', data: { queueItem: item } });
@@ -782,32 +2739,26 @@ export default function App() {
   };
 
   // --- AUDIO ANALYSIS (REMOTE) ---
-  const setupRemoteAudioAnalyzer = (peerId: string, stream: MediaStream) => {
-      const ctx = localAudioCtxRef.current; 
-      if (!ctx) return;
-      const analyser = ctx.createAnalyser();
-      analyser.fftSize = 128; 
-      const source = ctx.createMediaStreamSource(stream);
-      source.connect(analyser); 
-      peerAnalysersRef.current.set(peerId, analyser);
+  const connectRemoteAudio = (peerId: string, stream: MediaStream, channelId = peerId) => {
+      const mixer = getMixer();
+      connectChannel(mixer, channelId, stream, createLevelAnalyser(mixer.ctx), peersRef.current.get(peerId)?.volume ?? 1);
+      updatePanning();
   };
 
   useEffect(() => {
+      let frame = 0;
       const loop = () => {
-          if (peerAnalysersRef.current.size > 0) {
-              const dataArray = new Uint8Array(128);
+          const channels = mixerRef.current?.channels;
+          if (channels && channels.size > 0) {
               setPeers(prev => {
                   let changed = false;
                   const newMap = new Map<string, RemotePeer>(prev);
                   newMap.forEach((peer, id) => {
-                      const analyser = peerAnalysersRef.current.get(id);
-                      if (analyser) {
-                          analyser.getByteFrequencyData(dataArray);
-                          let sum = 0;
-                          for(let i=0; i<dataArray.length; i++) sum += dataArray[i];
-                          const avg = sum / dataArray.length;
-                          if (peer.isSpeaking !== (avg > 5)) {
-                              newMap.set(id, { ...peer, isSpeaking: avg > 5 });
+                      const channel = channels.get(id);
+                      if (channel) {
+                          const speaking = readLevel(channel.analyser) > SPEAKING_LEVEL;
+                          if (peer.isSpeaking !== speaking) {
+                              newMap.set(id, { ...peer, isSpeaking: speaking });
                               changed = true;
                           }
                       }
@@ -815,43 +2766,89 @@ export default function App() {
                   return changed ? newMap : prev;
               });
           }
-          requestAnimationFrame(loop);
+          frame = requestAnimationFrame(loop);
       };
-      const frame = requestAnimationFrame(loop);
+      frame = requestAnimationFrame(loop);
       return () => cancelAnimationFrame(frame);
   }, []);
 
   // --- HANDLERS ---
   const handleIncomingConnection = (conn: DataConnection) => {
-      if (peersRef.current.size >= (roomCapacityRef.current - 1)) { conn.close(); return; }
+      if (conn.metadata?.lookup) { serveRoomLookup(conn); return; }
+      const link = linksRef.current.get(conn.peer);
+      if (link && conn.metadata?.reconnect) {
+          replaceLinkConnections(conn.peer, link, undefined, conn);
+          setupDataEvents(conn, conn.peer);
+          return;
+      }
+      if (!roomRef.current || isForOtherRoom(conn.metadata)) { conn.close(); return; }
+      // Capacity is the leader's call (see setupDataEvents); others wait for its verdict
+      if (!isMember(membershipRef.current, conn.peer) && !isLeader()) holdGuest(conn.peer);
+      if (link) link.dataConn = conn;
+      else linksRef.current.set(conn.peer, createLink({ dataConn: conn }));
       setupDataEvents(conn, conn.peer);
       const meta = conn.metadata || {};
       addPeer(conn.peer, { displayName: meta.displayName || 'Ami', avatar: meta.avatar, dataConn: conn });
-      const currentPeerIds = Array.from(peersRef.current.keys());
-      if (currentPeerIds.length > 0) {
-          setTimeout(() => conn.send({ type: 'peer-list', peers: currentPeerIds }), 500);
-      }
   };
 
   const handleIncomingCall = (call: MediaConnection) => {
-      if (peersRef.current.size >= (roomCapacityRef.current - 1)) { call.close(); return; }
+      if (call.metadata?.screen) { receiveScreenCall(call); return; }
+      // A peer we already know coming back after a drop: no ringing, just pick up
+      const link = linksRef.current.get(call.peer);
+      if (link && call.metadata?.reconnect && processedStreamRef.current) {
+          call.answer(processedStreamRef.current);
+          preferCodec(call.peerConnection, videoSendSettingsRef.current.codec);
+          replaceLinkConnections(call.peer, link, call);
+          setupCallEvents(call, call.peer);
+          return;
+      }
+      if (!roomRef.current || isForOtherRoom(call.metadata)) { call.close(); return; }
+      // Members the leader already admitted are picked up straight away
+      if (isMember(membershipRef.current, call.peer) && processedStreamRef.current) {
+          answerCall(call);
+          return;
+      }
+      if (!isLeader()) {
+          pendingCallsRef.current.set(call.peer, call);
+          holdGuest(call.peer);
+          return;
+      }
+      // The leader rings: answering is what admits a newcomer
+      if (isFull(membershipRef.current, roomRef.current.capacity)) { call.close(); return; }
       setIncomingCall({ call, metadata: call.metadata });
       playSound(SOUND_RINGTONE);
   };
 
+  const answerCall = (call: MediaConnection, stream = processedStreamRef.current) => {
+      if (!stream) return;
+      const meta = call.metadata || {};
+      call.answer(stream);
+      preferCodec(call.peerConnection, videoSendSettingsRef.current.codec);
+      const link = linksRef.current.get(call.peer);
+      if (link) link.mediaCall = call;
+      else linksRef.current.set(call.peer, createLink({ mediaCall: call }));
+      setupCallEvents(call, call.peer);
+      addPeer(call.peer, { displayName: meta.displayName || 'Ami', avatar: meta.avatar, mediaCall: call });
+  };
+
   const acceptCall = () => {
-    if (!incomingCall || !localStream) return;
+    if (!incomingCall || !localStream || !roomRef.current) return;
     const call = incomingCall.call;
-    const meta = incomingCall.metadata || {};
-    const streamToSend = processedStream || setupAudioGraph(localStream);
-    call.answer(streamToSend);
-    setupCallEvents(call, call.peer);
-    addPeer(call.peer, { displayName: meta.displayName || 'Ami', avatar: meta.avatar, mediaCall: call });
     setIncomingCall(null);
+    if (isFull(membershipRef.current, roomRef.current.capacity)) {
+        const conn = linksRef.current.get(call.peer)?.dataConn;
+        if (conn?.open) denyJoin(call.peer, conn, 'full');
+        else call.close();
+        return;
+    }
+    answerCall(call, processedStream || setupAudioGraph(localStream));
+    admitMember(call.peer);
   };
 
   const rejectCall = () => {
       if (incomingCall) {
+          const conn = linksRef.current.get(incomingCall.call.peer)?.dataConn;
+          if (conn?.open) denyJoin(incomingCall.call.peer, conn, 'rejected');
           incomingCall.call.close();
           setIncomingCall(null);
       }
@@ -859,14 +2856,39 @@ export default function App() {
 
   const leaveRoom = () => {
       setIsTransitioning(true);
-      peersRef.current.forEach(peer => {
-          if (peer.mediaCall) peer.mediaCall.close();
-          if (peer.dataConn) peer.dataConn.close();
-      });
+      broadcastData({ type: 'member-leave' });
+      stopScreenShare();
+      stopSessionRecording();
+      releaseRoomAnchor();
+      roomRef.current = null;
+      setRoom(null);
+      setRoomInUrl(null);
+      updateMembership(EMPTY_MEMBERSHIP);
+      requestedLayersRef.current.clear();
+      sentLayersRef.current.clear();
+      setVideoOffPeers(new Set());
+      sendAdaptationRef.current.clear();
+      pendingCallsRef.current.forEach(call => call.close());
+      pendingCallsRef.current.clear();
+      linksRef.current.forEach(clearLinkTimers);
+      linksRef.current.clear();
+      const leaving = Array.from(peersRef.current.values());
       setTimeout(() => {
+          // Closed after a beat so member-leave gets out first
+          leaving.forEach(peer => {
+              if (peer.mediaCall) peer.mediaCall.close();
+              if (peer.screenCall) peer.screenCall.close();
+              if (peer.dataConn) peer.dataConn.close();
+          });
           setPeers(new Map());
-          peerAnalysersRef.current.clear();
-          setActivityView(null); setPinnedView(null);
+          const mixer = mixerRef.current;
+          if (mixer) Array.from(mixer.channels.keys()).forEach(id => removeChannel(mixer, id));
+          setActivityView(null); setPinnedView(null); setPinnedTiles([]); setActiveSpeaker(null);
+          resetWhiteboard();
+          roomIdRef.current = null;
+          releaseTransfers();
+          updateChatHistory(() => []);
+          setReplyingTo(null); setEditingMessageId(null);
           setViewState('lobby');
           setIsWaitingForHost(false);
           setIsTransitioning(false);
@@ -875,6 +2897,28 @@ export default function App() {
       playSound(SOUND_LEAVE);
   };
 
+  // --- NETWORK SETTINGS ---
+  // The form always edits the saved settings, never a link's one-off server
+  const openNetworkSettings = () => {
+      const saved = loadSavedSignalingSettings();
+      setSignalingDraft(saved);
+      setIceDraft(formatIceServers(saved.iceServers));
+      setShowNetworkSettings(true);
+  };
+
+  const saveNetworkSettings = () => {
+      const next: SignalingSettings = { ...signalingDraft, path: signalingDraft.path.startsWith('/') ? signalingDraft.path : `/${signalingDraft.path}`, iceServers: parseIceServers(iceDraft) };
+      saveSignalingSettings(next);
+      setSignaling(next);
+      setSignalingFromUrl(false);
+      setShowNetworkSettings(false);
+  };
+
+  const dropUrlSignaling = () => {
+      setSignaling(loadSavedSignalingSettings());
+      setSignalingFromUrl(false);
+  };
+
   // --- UI HELPERS ---
   const addLog = (message: string, type: 'info' | 'error' | 'success' = 'info') => {
     const id = Date.now();
@@ -898,17 +2942,21 @@ export default function App() {
   };
 
   // --- RENDER VIDEO ---
-  const renderVideoUnit = (peer: RemotePeer | 'local') => {
+  const renderVideoUnit = (peer: RemotePeer | 'local', compact = false) => {
       const isLocal = peer === 'local';
       if (!isLocal && (!peer || !peer.id)) return null;
       
       const id = isLocal ? peerId : peer.id;
+      const pinKey = isLocal ? 'local' : peer.id;
       const display = isLocal ? displayName : peer.displayName;
       const avatar = isLocal ? localAvatar : peer.avatar;
       const stream = isLocal ? localStream : peer.stream;
       const status = isLocal ? { muted: isMuted, deafened: isDeafened, videoEnabled: isVideoEnabled, isScreenSharing: isScreenSharing } : peer.status;
       const speaking = isLocal ? isLocalSpeaking : peer.isSpeaking;
       const activity = isLocal ? myCurrentActivity : peer.currentActivity;
+      const stats = isLocal ? undefined : peerStats.get(peer.id);
+      const quality: ConnectionQuality = stats?.quality ?? 'unknown';
+      const showVideo = status.videoEnabled && (isLocal || !videoOffPeers.has(peer.id));
 
       return (
           <div className={`video-unit relative bg-slate-800/80 backdrop-blur-md rounded-3xl overflow-hidden flex items-center justify-center group w-full h-full shadow-2xl transition-all duration-500 ease-out border border-white/5
@@ -917,18 +2965,22 @@ export default function App() {
                     e.currentTarget.requestFullscreen().catch(err => console.log(err));
                }}
                onContextMenu={!isLocal ? (e) => { e.preventDefault(); setContextMenu({x: e.clientX, y: e.clientY, peerId: peer.id}) } : undefined}
+               data-audio-peer={isLocal ? undefined : peer.id}
           >
               {/* Fullscreen Button Overlay */}
-              <div className="absolute top-4 left-4 z-40 opacity-0 group-hover:opacity-100 transition-opacity">
+              <div className="absolute top-4 left-4 z-40 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-2">
                    <button onClick={toggleFullscreen} className="bg-slate-900/50 hover:bg-slate-900/80 text-white rounded-full w-8 h-8 flex items-center justify-center transition-all backdrop-blur-sm border border-white/10">
                        <i className="fas fa-expand text-xs"></i>
                    </button>
+                   <button onClick={() => togglePin(pinKey)} title={pinnedTiles.includes(pinKey) ? 'Désépingler' : 'Épingler'} className={`rounded-full w-8 h-8 flex items-center justify-center transition-all backdrop-blur-sm border border-white/10 ${pinnedTiles.includes(pinKey) ? 'bg-indigo-500 text-white' : 'bg-slate-900/50 hover:bg-slate-900/80 text-white'}`}>
+                       <i className="fas fa-thumbtack text-xs"></i>
+                   </button>
               </div>
 
-              {(!status.videoEnabled && !status.isScreenSharing) && (
-                  <div className={`w-32 h-32 rounded-full flex items-center justify-center overflow-hidden z-20 ${speaking ? 'ring-4 ring-indigo-500/50' : ''} transition-all duration-300 transform group-hover:scale-110 shadow-lg`}>
+              {!showVideo && (
+                  <div className={`${compact ? 'w-14 h-14' : 'w-32 h-32'} rounded-full flex items-center justify-center overflow-hidden z-20 ${speaking ? 'ring-4 ring-indigo-500/50' : ''} transition-all duration-300 transform group-hover:scale-110 shadow-lg`}>
                       {avatar ? <img src={avatar} className="w-full h-full object-cover"/> : 
-                      <div className="w-full h-full bg-gradient-to-br from-slate-700 to-slate-800 flex items-center justify-center text-4xl font-bold text-white border border-white/10">{getInitials(display)}</div>}
+                      <div className={`w-full h-full bg-gradient-to-br from-slate-700 to-slate-800 flex items-center justify-center ${compact ? 'text-xl' : 'text-4xl'} font-bold text-white border border-white/10`}>{getInitials(display)}</div>}
                   </div>
               )}
               
@@ -936,21 +2988,51 @@ export default function App() {
                  ref={(el) => { 
                      if(el && stream) { 
                          el.srcObject = stream; 
-                         el.muted = isLocal || isDeafened; 
-                         if(!isLocal) {
-                            el.volume = isDeafened ? 0 : peer.volume; 
-                            if ('setSinkId' in el && selectedSpeakerId) (el as any).setSinkId(selectedSpeakerId);
-                         }
+                         el.muted = true; // Remote audio is played by the mixer
                          el.play().catch(()=>{});
                      }
                  }}
-                 autoPlay playsInline className={`absolute inset-0 w-full h-full bg-slate-900 ${status.videoEnabled || status.isScreenSharing ? 'block' : 'hidden'} ${status.isScreenSharing ? 'object-contain' : (isLocal ? 'object-cover scale-x-[-1]' : 'object-cover')}`}
+                 autoPlay playsInline className={`absolute inset-0 w-full h-full bg-slate-900 object-cover ${showVideo ? 'block' : 'hidden'} ${isLocal && cameraSettings.mirror ? 'scale-x-[-1]' : ''}`}
               />
               <div className="absolute bottom-4 left-4 bg-slate-900/60 backdrop-blur-md px-3 py-1.5 rounded-full text-white text-xs font-semibold border border-white/10 flex items-center z-30 select-none shadow-lg">
+                  {id && electLeader(membership) === id && <i className="fas fa-crown text-amber-400 mr-2" title="Hôte du salon"></i>}
                   {display}
                   {status.muted && <i className="fas fa-microphone-slash text-red-400 ml-2"></i>}
                   {status.deafened && <i className="fas fa-headphones-alt text-red-400 ml-2"></i>}
+                  {(isLocal ? recordingSince !== null : peer.isRecording) && <i className="fas fa-circle text-red-500 text-[8px] ml-2 animate-pulse" title="Enregistre"></i>}
+                  {!isLocal && (
+                      <button onClick={(e) => { e.stopPropagation(); setStatsPeerId(prev => (prev === peer.id ? null : peer.id)); }} title={QUALITY_STYLES[quality].label} className={`ml-2 ${QUALITY_STYLES[quality].color} hover:text-white transition-colors`}>
+                          <i className="fas fa-signal text-[10px]"></i>
+                      </button>
+                  )}
               </div>
+
+              {!isLocal && !compact && statsPeerId === peer.id && (
+                  <div className="absolute bottom-16 left-4 z-40 bg-slate-950/85 backdrop-blur-md rounded-2xl border border-white/10 p-3 text-[11px] shadow-2xl w-72" onDoubleClick={e => e.stopPropagation()}>
+                      <div className="flex items-center justify-between mb-2">
+                          <span className={`font-bold uppercase text-[10px] ${QUALITY_STYLES[quality].color}`}>{QUALITY_STYLES[quality].label}</span>
+                          <button onClick={exportDiagnostics} className="text-[10px] text-indigo-300 hover:text-white font-semibold"><i className="fas fa-download mr-1"></i>Exporter JSON</button>
+                      </div>
+                      {stats ? (
+                          <table className="w-full font-mono">
+                              <tbody>
+                                  {statsRows(stats).map(([label, value]) => (
+                                      <tr key={label}><td className="text-slate-500 pr-3 py-0.5 font-sans">{label}</td><td className="text-slate-200 text-right">{value}</td></tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      ) : <div className="text-slate-500">En attente des statistiques…</div>}
+                  </div>
+              )}
+
+              {!isLocal && peer.connectionState === 'reconnecting' && (
+                  <div className="absolute inset-0 z-30 bg-slate-950/50 backdrop-blur-[2px] flex items-center justify-center pointer-events-none">
+                      <div className="bg-slate-900/80 px-4 py-2 rounded-full border border-amber-500/30 text-amber-300 text-xs font-semibold flex items-center shadow-lg">
+                          <i className="fas fa-circle-notch fa-spin mr-2"></i>
+                          Reconnexion…
+                      </div>
+                  </div>
+              )}
               
               {!isLocal && activity !== 'none' && (
                   <div className="absolute top-4 right-4 flex flex-col items-end space-y-2 z-30">
@@ -962,7 +3044,6 @@ export default function App() {
                           <button onClick={() => { 
                                if (activity === 'whiteboard') {
                                    startWhiteboard();
-                                   broadcastData({ type: 'activity', activityType: 'whiteboard', action: 'sync-request' });
                                } else if (activity === 'youtube') {
                                    startYoutubeActivity();
                                }
@@ -977,6 +3058,186 @@ export default function App() {
       );
   };
 
+  // Screen shares get their own tile next to the presenter's camera
+  const renderScreenUnit = (peer: RemotePeer | 'local', compact = false) => {
+      const isLocal = peer === 'local';
+      const stream = isLocal ? screenStream : peer.screenStream;
+      if (!stream) return null;
+      const pinKey = screenKey(isLocal ? 'local' : peer.id);
+
+      return (
+          <div className="video-unit relative bg-slate-900 rounded-3xl overflow-hidden flex items-center justify-center group w-full h-full shadow-2xl border border-emerald-500/20"
+               onDoubleClick={(e) => {
+                    e.currentTarget.requestFullscreen().catch(err => console.log(err));
+               }}
+               data-audio-peer={isLocal ? undefined : pinKey}
+          >
+              <div className="absolute top-4 left-4 z-40 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-2">
+                   <button onClick={toggleFullscreen} className="bg-slate-900/50 hover:bg-slate-900/80 text-white rounded-full w-8 h-8 flex items-center justify-center transition-all backdrop-blur-sm border border-white/10">
+                       <i className="fas fa-expand text-xs"></i>
+                   </button>
+                   <button onClick={() => togglePin(pinKey)} title={pinnedTiles.includes(pinKey) ? 'Désépingler' : 'Épingler'} className={`rounded-full w-8 h-8 flex items-center justify-center transition-all backdrop-blur-sm border border-white/10 ${pinnedTiles.includes(pinKey) ? 'bg-indigo-500 text-white' : 'bg-slate-900/50 hover:bg-slate-900/80 text-white'}`}>
+                       <i className="fas fa-thumbtack text-xs"></i>
+                   </button>
+              </div>
+
+              {isLocal && !compact && (
+                  <div className="absolute top-4 right-4 z-40 flex space-x-2">
+                      <button onClick={() => changeScreenHint(screenHint === 'detail' ? 'motion' : 'detail')} title="Optimiser l'encodage pour le texte ou pour la vidéo" className="bg-slate-900/60 hover:bg-slate-900/80 backdrop-blur px-3 py-1.5 rounded-full border border-white/10 text-xs font-semibold text-white flex items-center">
+                          <i className={`fas ${screenHint === 'detail' ? 'fa-font' : 'fa-film'} mr-2 text-emerald-400`}></i>
+                          {screenHint === 'detail' ? 'Détails' : 'Fluidité'}
+                      </button>
+                      <button onClick={stopScreenShare} className="bg-red-500 hover:bg-red-400 px-3 py-1.5 rounded-full text-xs font-bold text-white shadow-lg shadow-red-500/30">Arrêter</button>
+                  </div>
+              )}
+
+              <video
+                 ref={(el) => {
+                     if (el && el.srcObject !== stream) {
+                         el.srcObject = stream;
+                         el.muted = true; // Shared audio goes through the mixer, and we don't replay our own
+                         el.play().catch(()=>{});
+                     }
+                 }}
+                 autoPlay playsInline muted className="absolute inset-0 w-full h-full object-contain"
+              />
+              <div className="absolute bottom-4 left-4 bg-slate-900/60 backdrop-blur-md px-3 py-1.5 rounded-full text-white text-xs font-semibold border border-white/10 flex items-center z-30 select-none shadow-lg">
+                  <i className="fas fa-desktop text-emerald-400 mr-2"></i>
+                  {isLocal ? 'Votre écran' : `Écran de ${peer.displayName}`}
+                  {stream.getAudioTracks().length > 0 && <i className="fas fa-volume-up text-slate-400 ml-2"></i>}
+              </div>
+          </div>
+      );
+  };
+
+  // --- RENDER ATTACHMENT ---
+  const renderAttachment = (attachment: FileAttachment) => {
+      const progress = (Array.from(transfers.values()) as TransferProgress[]).filter(t => t.transferId === attachment.transferId);
+      const isImage = attachment.fileType.startsWith('image/');
+      const canCancel = progress.some(t => t.state === 'active' || t.state === 'paused');
+
+      return (
+          <div className="mt-1">
+              {attachment.url && isImage ? (
+                  <a href={attachment.url} download={attachment.fileName}>
+                      <img src={attachment.url} className="mt-1 rounded-lg border border-white/10" />
+                  </a>
+              ) : (
+                  <div className="flex items-center space-x-3 bg-slate-900/50 rounded-xl p-2.5 border border-white/5">
+                      <div className="w-9 h-9 rounded-lg bg-indigo-500/10 flex items-center justify-center text-indigo-400 shrink-0">
+                          <i className={`fas ${isImage ? 'fa-image' : 'fa-file'} text-sm`}></i>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                          <div className="text-xs font-bold truncate text-slate-200">{attachment.fileName}</div>
+                          <div className="text-[10px] text-slate-500">
+                              {formatBytes(attachment.size)}
+                              {/* Restored from history or backfilled: the bytes never reached this session */}
+                              {!attachment.url && progress.length === 0 && ' · Indisponible'}
+                          </div>
+                      </div>
+                      {attachment.url && (
+                          <a href={attachment.url} download={attachment.fileName} className="w-8 h-8 rounded-full hover:bg-white/10 flex items-center justify-center text-slate-400 hover:text-white transition-colors"><i className="fas fa-download text-xs"></i></a>
+                      )}
+                  </div>
+              )}
+              {progress.filter(t => t.state !== 'done').map(t => (
+                  <div key={t.peerId} className="mt-2">
+                      <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                          <span className="truncate">{t.direction === 'send' ? (peers.get(t.peerId)?.displayName || t.peerId) : 'Réception'}</span>
+                          <span>
+                              {t.state === 'active' && `${Math.floor((t.done / t.totalChunks) * 100)}%`}
+                              {t.state === 'paused' && 'En pause'}
+                              {t.state === 'cancelled' && 'Annulé'}
+                              {t.state === 'failed' && 'Échec'}
+                          </span>
+                      </div>
+                      <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+                          <div className={`h-full transition-all ${t.state === 'failed' || t.state === 'cancelled' ? 'bg-red-500' : t.state === 'paused' ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{width: `${(t.done / t.totalChunks) * 100}%`}}></div>
+                      </div>
+                  </div>
+              ))}
+              {canCancel && (
+                  <button onClick={()=>cancelTransfer(attachment.transferId)} className="mt-2 text-[10px] font-bold text-slate-500 hover:text-red-400 transition-colors"><i className="fas fa-times mr-1"></i>Annuler</button>
+              )}
+          </div>
+      );
+  };
+
+  // --- RENDER CHAT MESSAGE ---
+  const renderChatMessage = (msg: ChatMessage) => {
+      const isMine = msg.sender === peerId;
+      const parent = msg.replyTo ? chatHistory.find(m => m.id === msg.replyTo) : undefined;
+      const reactions = Object.entries(msg.reactions || {});
+      const youtubeLinks = msg.text && !msg.deleted
+          ? Array.from(new Map(findUrls(msg.text).map(url => [getYoutubeId(url), url] as const)).entries()).filter(([id]) => id !== null)
+          : [];
+
+      return (
+          <div key={msg.id} className="group relative animate-in slide-in-from-right-4 duration-300">
+              <div className="flex items-baseline justify-between mb-1 px-1">
+                  <span className="font-bold text-xs text-indigo-300">{msg.senderName}</span>
+                  <span className="text-[10px] text-slate-500">
+                      {msg.editedAt && !msg.deleted && <span className="italic mr-1">(modifié)</span>}
+                      {new Date(msg.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}
+                  </span>
+              </div>
+
+              {/* Hover actions */}
+              {!msg.deleted && (
+                  <div className="absolute -top-2 right-1 z-10 hidden group-hover:flex items-center bg-slate-800 border border-white/10 rounded-full shadow-lg px-1">
+                      <button onClick={()=>setReactionPickerFor(reactionPickerFor === msg.id ? null : msg.id)} className="w-6 h-6 text-slate-400 hover:text-white"><i className="far fa-smile text-[10px]"></i></button>
+                      <button onClick={()=>{ setEditingMessageId(null); setReplyingTo(msg); }} className="w-6 h-6 text-slate-400 hover:text-white"><i className="fas fa-reply text-[10px]"></i></button>
+                      {isMine && msg.text !== undefined && (
+                          <button onClick={()=>startEditing(msg)} className="w-6 h-6 text-slate-400 hover:text-white"><i className="fas fa-pen text-[10px]"></i></button>
+                      )}
+                      {isMine && (
+                          <button onClick={()=>sendChatAction({ action: 'delete', messageId: msg.id })} className="w-6 h-6 text-slate-400 hover:text-red-400"><i className="fas fa-trash text-[10px]"></i></button>
+                      )}
+                  </div>
+              )}
+              {reactionPickerFor === msg.id && (
+                  <div className="absolute top-4 right-1 z-20 flex bg-slate-800 border border-white/10 rounded-full shadow-xl px-1.5 py-1 space-x-1">
+                      {CHAT_REACTIONS.map(emoji => (
+                          <button key={emoji} onClick={()=>toggleReaction(msg, emoji)} className="w-7 h-7 rounded-full hover:bg-white/10 hover:scale-110 transition-transform">{emoji}</button>
+                      ))}
+                  </div>
+              )}
+
+              <div className={`bg-white/5 rounded-2xl rounded-tl-none p-3 text-sm border border-white/5 shadow-sm ${editingMessageId === msg.id ? 'ring-1 ring-indigo-500/50' : ''}`}>
+                  {msg.replyTo && (
+                      <div className="mb-2 pl-2 border-l-2 border-indigo-500/50 text-[11px] text-slate-400 truncate">
+                          {parent ? <><span className="font-bold">{parent.senderName}</span> {parent.deleted ? <span className="italic">Message supprimé</span> : (parent.text || parent.attachment?.fileName)}</> : <span className="italic">Message introuvable</span>}
+                      </div>
+                  )}
+                  {msg.deleted ? (
+                      <span className="italic text-slate-500 text-xs"><i className="fas fa-ban mr-1"></i>Message supprimé</span>
+                  ) : (
+                      <div className="text-slate-200 break-words whitespace-pre-wrap">
+                          {msg.text && renderMarkdown(msg.text)}
+                          {msg.attachment && renderAttachment(msg.attachment)}
+                          {youtubeLinks.map(([videoId, url]) => (
+                              <button key={videoId} onClick={()=>queueFromChat(url)} className="mt-2 flex items-center text-[10px] font-bold bg-red-500/10 hover:bg-red-500 text-red-400 hover:text-white px-2.5 py-1.5 rounded-lg border border-red-500/20 transition-all whitespace-normal">
+                                  <i className="fab fa-youtube mr-1.5"></i> Ajouter à la file
+                              </button>
+                          ))}
+                      </div>
+                  )}
+              </div>
+
+              {reactions.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1 px-1">
+                      {reactions.map(([emoji, ids]) => (
+                          <button key={emoji} onClick={()=>toggleReaction(msg, emoji)} title={ids.map(id => id === peerId ? displayName : (peers.get(id)?.displayName || id)).join(', ')}
+                                  className={`text-[11px] px-2 py-0.5 rounded-full border transition-colors ${ids.includes(peerId || '') ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-200' : 'bg-white/5 border-white/10 text-slate-300 hover:bg-white/10'}`}>
+                              {emoji} {ids.length}
+                          </button>
+                      ))}
+                  </div>
+              )}
+          </div>
+      );
+  };
+
   // --- RENDER MAIN ---
   
   // TRANSITION OVERLAY
@@ -1013,32 +3274,96 @@ export default function App() {
                   </div>
                   <h1 className="text-3xl font-bold text-center mb-2 tracking-tight">CosmosP2P</h1>
                   <p className="text-slate-400 text-center mb-8 text-sm">Le futur de la communication décentralisée.</p>
+                  {inviteRoomId && (
+                      <div className="mb-6 bg-indigo-500/10 border border-indigo-500/20 rounded-xl px-4 py-3 text-xs text-indigo-200 flex items-center">
+                          <i className="fas fa-envelope-open-text mr-3 text-indigo-400"></i>
+                          <span>Vous êtes invité dans le salon <span className="font-mono font-bold">{inviteRoomId}</span>. Choisissez un pseudo pour entrer.</span>
+                      </div>
+                  )}
                   <form onSubmit={(e) => {
                       e.preventDefault();
                       if (!username.trim()) return;
                       setIsLoading(true);
                       const myId = `${username.replace(/[^a-zA-Z0-9_-]/g, '')}-${Math.floor(Math.random() * 9000) + 1000}`;
-                      setPeerId(myId); setDisplayName(username);
+                      setPeerId(myId); setDisplayName(username.trim().slice(0, MAX_NAME_LENGTH));
                       loadDevices().then(async () => {
                          try {
-                             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+                             const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(audioSettingsRef.current) });
                              setLocalStream(stream);
                              setupAudioGraph(stream);
-                             const peer = new window.Peer(myId);
+                             const peer = new window.Peer(myId, toPeerOptions(signaling));
                              peerRef.current = peer;
                              peer.on('open', () => { setIsLoading(false); setViewState('lobby'); });
+                             // Lost the signaling server (e.g. Wi-Fi blip): get our ID back so peers can re-dial us
+                             peer.on('disconnected', () => { if (!peer.destroyed) peer.reconnect(); });
                              peer.on('connection', handleIncomingConnection);
                              peer.on('call', handleIncomingCall);
-                             peer.on('error', (e) => { addLog("Erreur connexion", "error"); setIsLoading(false); });
+                             peer.on('error', (e) => {
+                                 // Nobody holds the anchor (the room is empty) or the member we asked is gone
+                                 const lookup = roomLookupRef.current;
+                                 if (e?.type === 'peer-unavailable' && lookup && String(e.message).includes(lookup)) {
+                                     failRoomLookup(lookup);
+                                     return;
+                                 }
+                                 if (['network', 'server-error', 'socket-error', 'socket-closed'].includes(e?.type)) {
+                                     setLoginError(`Serveur de signalisation injoignable (${describeSignaling(signaling)})`);
+                                 }
+                                 addLog("Erreur connexion", "error"); setIsLoading(false);
+                             });
                          } catch(e) { setLoginError("Accès Micro requis"); setIsLoading(false); }
                       });
                   }}>
-                      <input type="text" value={username} onChange={e=>setUsername(e.target.value)} className="w-full bg-slate-800/50 border border-white/10 focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/50 rounded-xl p-3.5 text-white placeholder-slate-500 focus:outline-none transition-all mb-4 text-center font-medium" placeholder="Votre Pseudo" />
+                      <input type="text" value={username} maxLength={MAX_NAME_LENGTH} onChange={e=>setUsername(e.target.value)} className="w-full bg-slate-800/50 border border-white/10 focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/50 rounded-xl p-3.5 text-white placeholder-slate-500 focus:outline-none transition-all mb-4 text-center font-medium" placeholder="Votre Pseudo" />
                       <button disabled={isLoading} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white py-3.5 rounded-xl font-bold transition-all shadow-lg shadow-indigo-600/20 hover:scale-[1.02] active:scale-[0.98]">
                         {isLoading ? "Connexion..." : "Entrer dans le Cosmos"}
                       </button>
                   </form>
                   {loginError && <p className="text-red-400 text-center mt-4 text-xs font-semibold bg-red-500/10 py-2 rounded-lg">{loginError}</p>}
+
+                  <button type="button" onClick={()=> showNetworkSettings ? setShowNetworkSettings(false) : openNetworkSettings()} className="w-full mt-6 text-[11px] text-slate-500 hover:text-slate-300 transition-colors flex items-center justify-center">
+                      <i className="fas fa-network-wired mr-2"></i> {describeSignaling(signaling)}
+                      <i className={`fas fa-chevron-${showNetworkSettings ? 'up' : 'down'} ml-2 text-[9px]`}></i>
+                  </button>
+
+                  {/* Network Settings */}
+                  {showNetworkSettings && (
+                      <div className="mt-4 pt-4 border-t border-white/5 space-y-3 text-left animate-in fade-in">
+                          {signalingFromUrl && (
+                              <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2 text-[11px] text-amber-200">
+                                  Le lien impose <span className="font-mono break-all">{describeSignaling(signaling)}</span> pour cette session. Vos réglages ci-dessous restent enregistrés.
+                                  <button type="button" onClick={dropUrlSignaling} className="block mt-1 font-bold text-amber-300 hover:text-white">Utiliser mes réglages</button>
+                              </div>
+                          )}
+                          <div className="grid grid-cols-2 gap-2 bg-slate-800/50 p-1 rounded-xl">
+                              {(['cloud', 'custom'] as const).map(mode => (
+                                  <button key={mode} type="button" onClick={()=>setSignalingDraft(d => ({ ...d, mode }))} className={`py-2 rounded-lg text-xs font-bold transition-colors ${signalingDraft.mode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                                      {mode === 'cloud' ? 'PeerJS Cloud' : 'Serveur perso'}
+                                  </button>
+                              ))}
+                          </div>
+                          {signalingDraft.mode === 'custom' && (
+                              <>
+                                  <div className="flex space-x-2">
+                                      <input type="text" value={signalingDraft.host} onChange={e=>setSignalingDraft(d => ({ ...d, host: e.target.value.trim() }))} placeholder="Hôte" className="flex-1 min-w-0 bg-slate-800/50 border border-white/10 rounded-xl p-2.5 text-xs text-white focus:outline-none focus:border-indigo-500/50" />
+                                      <input type="number" value={signalingDraft.port} onChange={e=>setSignalingDraft(d => ({ ...d, port: parseInt(e.target.value) || 0 }))} placeholder="Port" className="w-20 bg-slate-800/50 border border-white/10 rounded-xl p-2.5 text-xs text-white focus:outline-none focus:border-indigo-500/50" />
+                                  </div>
+                                  <div className="flex space-x-2">
+                                      <input type="text" value={signalingDraft.path} onChange={e=>setSignalingDraft(d => ({ ...d, path: e.target.value.trim() }))} placeholder="/cosmos" className="flex-1 min-w-0 bg-slate-800/50 border border-white/10 rounded-xl p-2.5 text-xs text-white focus:outline-none focus:border-indigo-500/50" />
+                                      <input type="text" value={signalingDraft.key} onChange={e=>setSignalingDraft(d => ({ ...d, key: e.target.value.trim() }))} placeholder="Clé" className="w-24 bg-slate-800/50 border border-white/10 rounded-xl p-2.5 text-xs text-white focus:outline-none focus:border-indigo-500/50" />
+                                  </div>
+                                  <label className="flex items-center text-xs text-slate-400 cursor-pointer">
+                                      <input type="checkbox" checked={signalingDraft.secure} onChange={e=>setSignalingDraft(d => ({ ...d, secure: e.target.checked }))} className="mr-2 accent-indigo-500" />
+                                      Connexion sécurisée (TLS)
+                                  </label>
+                              </>
+                          )}
+                          <div>
+                              <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Serveurs ICE (STUN / TURN)</label>
+                              <textarea value={iceDraft} onChange={e=>setIceDraft(e.target.value)} rows={3} placeholder={"stun:stun.l.google.com:19302\nturn:turn.exemple.fr:3478 utilisateur motdepasse"} className="w-full bg-slate-800/50 border border-white/10 rounded-xl p-2.5 text-[11px] font-mono text-white focus:outline-none focus:border-indigo-500/50 resize-none placeholder-slate-600" />
+                          </div>
+                          <button type="button" onClick={saveNetworkSettings} className="w-full bg-white/10 hover:bg-white/20 text-white py-2.5 rounded-xl font-bold text-xs transition-colors">Enregistrer</button>
+                      </div>
+                  )}
               </div>
           </div>
       );
@@ -1067,9 +3392,9 @@ export default function App() {
                        </div>
                    </div>
                    
-                   <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4 pl-1">Connexion Directe</h3>
-                   <form onSubmit={(e)=>{ e.preventDefault(); if(remoteIdInput.trim() !== peerId) { connectToPeer(remoteIdInput.trim());} }} className="space-y-3">
-                       <input type="text" value={remoteIdInput} onChange={e=>setRemoteIdInput(e.target.value)} placeholder="ID du salon..." className="w-full bg-slate-800/50 border border-white/5 rounded-xl p-3 text-sm focus:border-indigo-500/50 focus:outline-none transition-all placeholder-slate-600" />
+                   <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-4 pl-1">Rejoindre un salon</h3>
+                   <form onSubmit={(e)=>{ e.preventDefault(); if(remoteIdInput.trim()) joinFromInput(remoteIdInput); }} className="space-y-3">
+                       <input type="text" value={remoteIdInput} onChange={e=>setRemoteIdInput(e.target.value)} placeholder="Lien d'invitation ou ID du salon..." className="w-full bg-slate-800/50 border border-white/5 rounded-xl p-3 text-sm focus:border-indigo-500/50 focus:outline-none transition-all placeholder-slate-600" />
                        <button className="w-full bg-white text-slate-900 py-3 rounded-xl font-bold text-sm hover:bg-indigo-50 transition-all shadow-lg hover:scale-[1.02] active:scale-[0.98]">
                            Rejoindre
                        </button>
@@ -1082,7 +3407,9 @@ export default function App() {
                                <i className="fas fa-broadcast-tower mr-2"></i>
                                <span className="text-xs font-bold uppercase">Status Réseau</span>
                            </div>
-                           <div className="text-xs text-slate-400">Connecté au réseau P2P global. Prêt à échanger.</div>
+                           <div className="text-xs text-slate-400">
+                               {signaling.mode === 'cloud' ? 'Connecté au réseau P2P global. Prêt à échanger.' : <>Serveur local <span className="font-mono text-slate-300 break-all">{describeSignaling(signaling)}</span>. Prêt à échanger.</>}
+                           </div>
                        </div>
                    </div>
                </div>
@@ -1095,11 +3422,17 @@ export default function App() {
                            <p className="text-slate-400">Créez un salon instantané et invitez vos pairs.</p>
                        </header>
 
-                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
+                       <div className="mb-6 max-w-md">
+                           <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2 pl-1">Nom du salon</label>
+                           <input type="text" value={roomNameInput} onChange={e=>setRoomNameInput(e.target.value)} maxLength={MAX_ROOM_NAME_LENGTH} placeholder={`Salon de ${displayName}`} className="w-full bg-slate-800/50 border border-white/5 rounded-xl p-3 text-sm focus:border-indigo-500/50 focus:outline-none transition-all placeholder-slate-600" />
+                       </div>
+
+                       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-12">
                            {[
                                { t: "Duo", c: 2, icon: "fa-user", color: "text-indigo-400", from: "from-slate-800", to: "to-slate-900" },
                                { t: "Squad", c: 3, icon: "fa-users", color: "text-purple-400", from: "from-slate-800", to: "to-slate-900" },
                                { t: "Full", c: 4, icon: "fa-globe", color: "text-cyan-400", from: "from-slate-800", to: "to-slate-900" },
+                               { t: "Équipe", c: MAX_PEERS_LIMIT, icon: "fa-people-group", color: "text-emerald-400", from: "from-slate-800", to: "to-slate-900" },
                                { t: "Ciné", c: 4, icon: "fa-play", mode: 'cinema', color: "text-red-400", from: "from-slate-800", to: "to-slate-900" }
                            ].map((item, i) => (
                                <div key={i} onClick={()=>{ startRoomTransition(item.c, item.mode as any); }} 
@@ -1145,6 +3478,20 @@ export default function App() {
 
   // ROOM SCREEN
   const activePeers = Array.from(peers.values()) as RemotePeer[];
+  const layout = currentLayout();
+  const recorders = [...(recordingSince !== null ? ['vous'] : []), ...activePeers.filter(p => p.isRecording).map(p => p.displayName)];
+  const renderTile = (tile: StageTile, compact = false) => {
+      const peer = tile.peerId === 'local' ? 'local' : peers.get(tile.peerId);
+      if (!peer) return null;
+      return tile.screen ? renderScreenUnit(peer, compact) : renderVideoUnit(peer, compact);
+  };
+  const wbPageNumber = pageNumber(wbPageId);
+  const tileCount = layout.stage.length;
+  const gridColumns = tileCount === 1 ? 'grid-cols-1'
+      : tileCount === 2 ? 'grid-cols-1 md:grid-cols-2'
+      : tileCount <= 4 ? 'grid-cols-2'
+      : tileCount <= 9 ? 'grid-cols-2 md:grid-cols-3'
+      : 'grid-cols-3 md:grid-cols-4';
   
   if (isWaitingForHost) {
       return (
@@ -1166,10 +3513,13 @@ export default function App() {
        
        {contextMenu && (
            <div className="fixed z-[100] bg-slate-800/90 backdrop-blur-xl border border-white/10 rounded-xl p-4 shadow-2xl w-56" style={{top: contextMenu.y, left: contextMenu.x}}>
-               <div className="text-[10px] font-bold text-slate-500 uppercase mb-3 px-1">Volume Utilisateur</div>
+               <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase mb-3 px-1">
+                   <span>Volume Utilisateur</span>
+                   <span>{Math.round((peers.get(contextMenu.peerId)?.volume ?? 1) * 100)}%</span>
+               </div>
                <input 
-                  type="range" min="0" max="1" step="0.1" 
-                  defaultValue={peers.get(contextMenu.peerId)?.volume || 1}
+                  type="range" min="0" max="2" step="0.05" 
+                  value={peers.get(contextMenu.peerId)?.volume ?? 1}
                   onChange={(e) => {
                       const vol = parseFloat(e.target.value);
                       addPeer(contextMenu.peerId, { volume: vol });
@@ -1182,7 +3532,7 @@ export default function App() {
         {/* Settings Modal */}
         {showSettingsModal && (
             <div className="absolute inset-0 z-[80] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={()=>setShowSettingsModal(false)}>
-                <div className="bg-slate-900/90 backdrop-blur-xl p-8 rounded-3xl w-full max-w-md border border-white/10 shadow-2xl transform transition-all scale-100" onClick={e=>e.stopPropagation()}>
+                <div className="bg-slate-900/90 backdrop-blur-xl p-8 rounded-3xl w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar border border-white/10 shadow-2xl transform transition-all scale-100" onClick={e=>e.stopPropagation()}>
                     <h3 className="text-2xl font-bold mb-6 text-white">Paramètres</h3>
                     <div className="space-y-6">
                         <div>
@@ -1199,11 +3549,117 @@ export default function App() {
                             <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Volume Gain</label>
                             <input type="range" min="0" max="2" step="0.1" value={micGain} onChange={e=>setMicGain(parseFloat(e.target.value))} className="w-full accent-indigo-500 h-1.5 bg-slate-700 rounded-lg appearance-none"/>
                         </div>
+                        {canSelectOutput() && (
+                            <div>
+                                <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Sortie audio</label>
+                                <div className="relative">
+                                    <select value={audioSettings.outputDeviceId} onChange={e=>updateAudioSettings({ outputDeviceId: e.target.value })} className="w-full bg-slate-800 text-white rounded-xl p-3 text-sm outline-none border border-white/5 focus:border-indigo-500/50 appearance-none">
+                                        <option value="">Par défaut</option>
+                                        {outputDevices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+                                    </select>
+                                    <i className="fas fa-chevron-down absolute right-3 top-3.5 text-xs text-slate-500 pointer-events-none"></i>
+                                </div>
+                            </div>
+                        )}
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Volume général</label>
+                            <input type="range" min="0" max="1" step="0.05" value={audioSettings.masterVolume} onChange={e=>updateAudioSettings({ masterVolume: parseFloat(e.target.value) })} className="w-full accent-indigo-500 h-1.5 bg-slate-700 rounded-lg appearance-none"/>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Traitement</label>
+                            <div className="space-y-2">
+                                {AUDIO_TOGGLES.map(({ key, label }) => (
+                                    <label key={key} className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                                        <span>{label}</span>
+                                        <input type="checkbox" checked={audioSettings[key]} onChange={e=>updateAudioSettings({ [key]: e.target.checked })} className="w-4 h-4 accent-indigo-500"/>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Mode d'entrée</label>
+                            <div className="flex bg-slate-800 rounded-xl p-1 mb-3">
+                                {([['voice', 'Détection vocale'], ['push-to-talk', 'Appuyer pour parler']] as const).map(([mode, label]) => (
+                                    <button key={mode} onClick={()=>updateAudioSettings({ inputMode: mode })} className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${audioSettings.inputMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{label}</button>
+                                ))}
+                            </div>
+                            {/* Live input level; dimmed while the gate is closed, the white mark is the threshold */}
+                            <div className="relative h-2 bg-slate-800 rounded-full overflow-hidden mb-3">
+                                <div ref={micMeterRef} className="absolute inset-y-0 left-0 bg-emerald-500 rounded-full" style={{ width: 0 }}></div>
+                                {audioSettings.inputMode === 'voice' && audioSettings.sensitivity > 0 && (
+                                    <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: `${audioSettings.sensitivity * 100}%` }}></div>
+                                )}
+                            </div>
+                            {audioSettings.inputMode === 'voice' ? (
+                                <>
+                                    <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                        <span>Sensibilité</span>
+                                        <span>{audioSettings.sensitivity === 0 ? 'Toujours actif' : `${Math.round(audioSettings.sensitivity * 100)}%`}</span>
+                                    </div>
+                                    <input type="range" min="0" max="1" step="0.01" value={audioSettings.sensitivity} onChange={e=>updateAudioSettings({ sensitivity: parseFloat(e.target.value) })} className="w-full accent-indigo-500 h-1.5 bg-slate-700 rounded-lg appearance-none"/>
+                                </>
+                            ) : (
+                                <div className="flex items-center justify-between text-sm text-slate-300">
+                                    <span>Touche</span>
+                                    <button onClick={()=>setIsBindingPushToTalk(true)} className={`px-4 py-1.5 rounded-lg text-xs font-bold border transition-colors ${isBindingPushToTalk ? 'border-indigo-500 text-indigo-300 animate-pulse' : 'border-white/10 bg-slate-800 text-white hover:border-indigo-500/50'}`}>
+                                        {isBindingPushToTalk ? 'Appuyez sur une touche…' : formatKeyCode(audioSettings.pushToTalkKey)}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        <div className="pt-6 border-t border-white/5">
+                            <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Caméra</label>
+                            <div className="relative aspect-video bg-slate-800 rounded-xl overflow-hidden mb-3 border border-white/5">
+                                {(isCameraLive ? localStream : cameraPreview) ? (
+                                    <video ref={el => { const src = isCameraLive ? localStream : cameraPreview; if (el && el.srcObject !== src) el.srcObject = src; }} autoPlay playsInline muted className={`w-full h-full object-cover ${cameraSettings.mirror ? 'scale-x-[-1]' : ''}`}/>
+                                ) : (
+                                    <div className="absolute inset-0 flex items-center justify-center text-slate-500 text-xs"><i className="fas fa-video-slash mr-2"></i>Aucun aperçu</div>
+                                )}
+                            </div>
+                            <div className="relative mb-3">
+                                <select value={cameraSettings.deviceId} onChange={e=>updateCameraSettings({ deviceId: e.target.value })} className="w-full bg-slate-800 text-white rounded-xl p-3 text-sm outline-none border border-white/5 focus:border-indigo-500/50 appearance-none">
+                                    <option value="">Par défaut</option>
+                                    {videoDevices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+                                </select>
+                                <i className="fas fa-chevron-down absolute right-3 top-3.5 text-xs text-slate-500 pointer-events-none"></i>
+                            </div>
+                            <div className="flex space-x-3 mb-3">
+                                <select value={cameraSettings.resolution} onChange={e=>updateCameraSettings({ resolution: e.target.value as CameraSettings['resolution'] })} className="flex-1 bg-slate-800 text-white rounded-xl p-3 text-sm outline-none border border-white/5 focus:border-indigo-500/50">
+                                    {CAMERA_RESOLUTIONS.map(r => <option key={r.id} value={r.id}>{r.id}</option>)}
+                                </select>
+                                <select value={cameraSettings.frameRate} onChange={e=>updateCameraSettings({ frameRate: parseInt(e.target.value, 10) })} className="flex-1 bg-slate-800 text-white rounded-xl p-3 text-sm outline-none border border-white/5 focus:border-indigo-500/50">
+                                    {CAMERA_FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} i/s</option>)}
+                                </select>
+                            </div>
+                            <label className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                                <span>Effet miroir sur mon image</span>
+                                <input type="checkbox" checked={cameraSettings.mirror} onChange={e=>updateCameraSettings({ mirror: e.target.checked })} className="w-4 h-4 accent-indigo-500"/>
+                            </label>
+                        </div>
+                        <div className="pt-6 border-t border-white/5">
+                            <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Envoi vidéo</label>
+                            <div className="flex space-x-3 mb-3">
+                                <select value={videoSendSettings.codec} onChange={e=>updateVideoSendSettings({ codec: e.target.value as VideoSendSettings['codec'] })} title="Codec préféré" className="flex-1 bg-slate-800 text-white rounded-xl p-3 text-sm outline-none border border-white/5 focus:border-indigo-500/50">
+                                    <option value="auto">Codec automatique</option>
+                                    {VIDEO_CODECS.map(codec => <option key={codec} value={codec}>{codec === 'H264' ? 'H.264' : codec}</option>)}
+                                </select>
+                                <select value={videoSendSettings.maxBitrate} onChange={e=>updateVideoSendSettings({ maxBitrate: parseInt(e.target.value, 10) })} title="Débit montant maximum, par participant" className="flex-1 bg-slate-800 text-white rounded-xl p-3 text-sm outline-none border border-white/5 focus:border-indigo-500/50">
+                                    {MAX_BITRATE_PRESETS.map(kbps => <option key={kbps} value={kbps}>{kbps ? `${kbps} kb/s max` : 'Débit illimité'}</option>)}
+                                </select>
+                            </div>
+                            {!canPreferCodec() && videoSendSettings.codec !== 'auto' && (
+                                <p className="text-[11px] text-amber-400 mb-3">Ce navigateur ne permet pas de choisir le codec, il sera ignoré.</p>
+                            )}
+                            <label className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                                <span>Baisser la qualité si la connexion se dégrade</span>
+                                <input type="checkbox" checked={videoSendSettings.adaptive} onChange={e=>updateVideoSendSettings({ adaptive: e.target.checked })} className="w-4 h-4 accent-indigo-500"/>
+                            </label>
+                        </div>
                         <div className="pt-6 border-t border-white/5">
                             <label className="text-xs font-bold text-slate-500 uppercase block mb-2">Pseudo</label>
                             <div className="flex space-x-3">
-                                <input type="text" value={displayName} onChange={e=>setDisplayName(e.target.value)} className="flex-1 bg-slate-800 rounded-xl p-3 text-sm border border-white/5 focus:border-indigo-500/50 focus:outline-none" />
-                                <button onClick={()=>{broadcastData({type:'profile-update', displayName:displayName, avatar:localAvatarRef.current}); setShowSettingsModal(false);}} className="bg-white text-slate-900 px-5 rounded-xl font-bold text-sm hover:bg-indigo-50 transition-colors">OK</button>
+                                <input type="text" value={displayName} maxLength={MAX_NAME_LENGTH} onChange={e=>setDisplayName(e.target.value)} className="flex-1 bg-slate-800 rounded-xl p-3 text-sm border border-white/5 focus:border-indigo-500/50 focus:outline-none" />
+                                <button onClick={()=>{broadcastData({type:'profile-update', displayName:displayName, avatar:localAvatarRef.current || undefined}); setShowSettingsModal(false);}} className="bg-white text-slate-900 px-5 rounded-xl font-bold text-sm hover:bg-indigo-50 transition-colors">OK</button>
                             </div>
                         </div>
                     </div>
@@ -1239,12 +3695,26 @@ export default function App() {
           
           {/* Header */}
           <div className="h-20 flex items-center justify-between px-8 z-20 pointer-events-none">
-               <div className="pointer-events-auto bg-slate-800/50 backdrop-blur-md px-4 py-2 rounded-full flex items-center space-x-3 hover:bg-slate-800 transition-colors cursor-pointer border border-white/5 shadow-lg" onClick={()=>navigator.clipboard.writeText(peerId||'')}>
+               <div className="pointer-events-auto bg-slate-800/50 backdrop-blur-md px-4 py-2 rounded-full flex items-center space-x-3 hover:bg-slate-800 transition-colors cursor-pointer border border-white/5 shadow-lg group" title="Copier le lien d'invitation" onClick={()=>{ if (room) { navigator.clipboard.writeText(buildInviteLink(room.id)); addLog("Lien d'invitation copié !", 'success'); } }}>
                    <div className="w-2 h-2 rounded-full bg-green-500 shadow-[0_0_10px_rgba(34,197,94,0.5)]"></div>
-                   <span className="font-mono text-xs font-bold text-slate-300 tracking-wide">{peerId}</span>
+                   <span className="text-xs font-bold text-white">{room?.name}</span>
+                   <span className="font-mono text-[11px] text-slate-400 tracking-wide">{room?.id}</span>
+                   <span className="text-[10px] text-slate-500">{membership.members.length}/{roomCapacity}</span>
+                   <i className="fas fa-link text-[10px] text-indigo-400 opacity-60 group-hover:opacity-100 transition-opacity"></i>
                </div>
+               {recorders.length > 0 && (
+                   <div className="bg-red-500/15 border border-red-500/30 backdrop-blur-md px-4 py-2 rounded-full flex items-center text-xs font-semibold text-red-200 shadow-lg">
+                       <i className="fas fa-circle text-red-500 text-[8px] mr-2 animate-pulse"></i>
+                       Enregistrement en cours · {recorders.join(', ')}
+                   </div>
+               )}
                <div className="pointer-events-auto flex space-x-3">
-                   <button onClick={()=>setShowSettingsModal(true)} className="w-10 h-10 bg-slate-800/50 rounded-full flex items-center justify-center border border-white/5 hover:bg-white hover:text-slate-900 transition-all text-sm shadow-lg"><i className="fas fa-cog"></i></button>
+                   <div className="flex bg-slate-800/50 rounded-full p-1 border border-white/5 shadow-lg">
+                       {LAYOUT_MODES.map(mode => (
+                           <button key={mode.id} onClick={() => setLayoutMode(mode.id)} title={mode.label} className={`w-8 h-8 rounded-full flex items-center justify-center text-xs transition-colors ${layoutMode === mode.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}><i className={`fas ${mode.icon}`}></i></button>
+                       ))}
+                   </div>
+                   <button onClick={()=>{ loadDevices(); setShowSettingsModal(true); }} className="w-10 h-10 bg-slate-800/50 rounded-full flex items-center justify-center border border-white/5 hover:bg-white hover:text-slate-900 transition-all text-sm shadow-lg"><i className="fas fa-cog"></i></button>
                </div>
           </div>
 
@@ -1290,7 +3760,7 @@ export default function App() {
                                                 className="flex-1 bg-slate-800/50 border border-white/10 rounded-xl px-3 py-2.5 text-xs focus:outline-none focus:border-red-500/50 transition-colors text-white placeholder-slate-500"
                                                 onKeyDown={e => {if(e.key === 'Enter') addToQueue()}}
                                               />
-                                              <button onClick={addToQueue} className="bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white p-2.5 rounded-xl transition-all border border-red-500/20">
+                                              <button onClick={()=>addToQueue()} className="bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white p-2.5 rounded-xl transition-all border border-red-500/20">
                                                   <i className="fas fa-plus text-xs"></i>
                                               </button>
                                           </div>
@@ -1336,42 +3806,114 @@ export default function App() {
                                       <div className="flex items-center space-x-4">
                                           <div className="flex space-x-1.5 p-1 bg-gray-100 rounded-full">
                                               {WB_COLORS.map(c => (
-                                                  <button key={c} onClick={()=> {setWbColor(c); setWbIsEraser(false)}} className={`w-5 h-5 rounded-full hover:scale-110 transition-transform ${wbColor === c && !wbIsEraser ? 'ring-2 ring-offset-2 ring-gray-400 scale-110' : ''}`} style={{backgroundColor: c}}></button>
+                                                  <button key={c} onClick={()=> {setWbColor(c); if (wbTool === 'eraser') setWbTool('pen');}} className={`w-5 h-5 rounded-full hover:scale-110 transition-transform ${wbColor === c && wbTool !== 'eraser' ? 'ring-2 ring-offset-2 ring-gray-400 scale-110' : ''}`} style={{backgroundColor: c}}></button>
                                               ))}
                                           </div>
                                           <div className="w-px h-6 bg-gray-200 mx-2"></div>
-                                          <div className="flex items-center space-x-2 bg-gray-100 rounded-lg p-1">
-                                            <button onClick={()=>setWbIsEraser(false)} className={`p-2 rounded-md transition-colors ${!wbIsEraser ? 'bg-white shadow text-black' : 'text-gray-500 hover:text-black'}`}><i className="fas fa-pen text-xs"></i></button>
-                                            <button onClick={()=>setWbIsEraser(true)} className={`p-2 rounded-md transition-colors ${wbIsEraser ? 'bg-white shadow text-black' : 'text-gray-500 hover:text-black'}`}><i className="fas fa-eraser text-xs"></i></button>
+                                          <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1">
+                                            {WB_TOOLS.map(tool => (
+                                                <button key={tool.id} onClick={()=>{ setWbTool(tool.id); setWbSelection(null); }} title={tool.label} className={`p-2 rounded-md transition-colors ${wbTool === tool.id ? 'bg-white shadow text-black' : 'text-gray-500 hover:text-black'}`}><i className={`fas ${tool.icon} text-xs`}></i></button>
+                                            ))}
+                                            <button onClick={()=>wbImageInputRef.current?.click()} title="Image (ou coller)" className="p-2 rounded-md transition-colors text-gray-500 hover:text-black"><i className="fas fa-image text-xs"></i></button>
+                                            <input ref={wbImageInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) placeImage(file); e.target.value = ''; }} />
                                           </div>
                                           <input type="range" min="1" max="20" value={wbSize} onChange={(e)=>setWbSize(parseInt(e.target.value))} className="w-24 accent-slate-800" />
+                                          <div className="w-px h-6 bg-gray-200 mx-2"></div>
+                                          <div className="flex items-center space-x-1">
+                                            <button onClick={undoWhiteboard} disabled={wbStackSizes.undo === 0} title="Annuler (Ctrl+Z)" className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"><i className="fas fa-rotate-left text-xs"></i></button>
+                                            <button onClick={redoWhiteboard} disabled={wbStackSizes.redo === 0} title="Rétablir (Ctrl+Shift+Z)" className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"><i className="fas fa-rotate-right text-xs"></i></button>
+                                          </div>
                                       </div>
                                       <div className="flex items-center space-x-3">
                                           <div className="flex items-center space-x-1 bg-gray-100 border border-gray-200 rounded-lg px-1 py-0.5">
-                                              <button onClick={()=>{
-                                                  const newPage = Math.max(0, wbPageIndex - 1);
-                                                  setWbPageIndex(newPage);
-                                                  broadcastData({type:'activity', activityType:'whiteboard', action:'set-page', data:{pageIndex: newPage}});
-                                              }} className="w-8 h-8 flex items-center justify-center hover:bg-white rounded-md transition-colors text-gray-600"><i className="fas fa-chevron-left text-xs"></i></button>
-                                              <span className="text-xs font-bold font-mono w-6 text-center text-gray-700">{wbPageIndex + 1}</span>
-                                              <button onClick={()=>{
-                                                  const newPage = wbPageIndex + 1;
-                                                  setWbPageIndex(newPage);
-                                                  broadcastData({type:'activity', activityType:'whiteboard', action:'set-page', data:{pageIndex: newPage}});
-                                              }} className="w-8 h-8 flex items-center justify-center hover:bg-white rounded-md transition-colors text-gray-600"><i className="fas fa-chevron-right text-xs"></i></button>
+                                              <button onClick={() => setWbSidebarOpen(open => !open)} title="Afficher les pages" className={`w-8 h-8 flex items-center justify-center rounded-md transition-colors ${wbSidebarOpen ? 'bg-white text-black shadow-sm' : 'text-gray-600 hover:bg-white'}`}><i className="fas fa-table-columns text-xs"></i></button>
+                                              <button onClick={() => goToPage(wbPages[wbPageNumber - 2].id)} disabled={wbPageNumber <= 1} className="w-8 h-8 flex items-center justify-center hover:bg-white rounded-md transition-colors text-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"><i className="fas fa-chevron-left text-xs"></i></button>
+                                              <span className="text-xs font-bold font-mono px-1 text-center text-gray-700 whitespace-nowrap">{wbPageNumber}/{wbPages.length}</span>
+                                              <button onClick={() => goToPage(wbPages[wbPageNumber].id)} disabled={wbPageNumber >= wbPages.length} className="w-8 h-8 flex items-center justify-center hover:bg-white rounded-md transition-colors text-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"><i className="fas fa-chevron-right text-xs"></i></button>
+                                              <button
+                                                  onClick={() => changePageMode(wbPageMode === 'shared' ? 'free' : 'shared')}
+                                                  title={wbPageMode === 'shared' ? 'Pages synchronisées : tout le monde suit le présentateur (cliquer pour naviguer librement)' : 'Navigation libre (cliquer pour suivre le présentateur)'}
+                                                  className={`w-8 h-8 flex items-center justify-center rounded-md transition-colors ${wbPageMode === 'shared' ? 'text-indigo-600 hover:bg-white' : 'text-gray-400 hover:bg-white'}`}
+                                              ><i className={`fas ${wbPageMode === 'shared' ? 'fa-link' : 'fa-link-slash'} text-xs`}></i></button>
+                                          </div>
+                                          <select value={wbFollowing || ''} onChange={(e) => followPeer(e.target.value || null)} title="Suivre la vue d'un participant" className="text-xs bg-gray-100 border border-gray-200 rounded-lg px-2 py-1.5 text-gray-700 focus:outline-none max-w-[9rem]">
+                                              <option value="">Suivre…</option>
+                                              {Array.from(wbRemoteCursors.keys()).filter(id => peers.has(id)).map(id => (
+                                                  <option key={id} value={id}>{peers.get(id)!.displayName}</option>
+                                              ))}
+                                          </select>
+                                          <button onClick={() => moveBoardView(DEFAULT_VIEW)} title="Réinitialiser le zoom (pincer ou Ctrl + molette pour zoomer)" className="text-xs font-bold font-mono text-gray-600 hover:bg-gray-100 px-2 py-1.5 rounded-lg transition-colors w-14">{Math.round(wbView.zoom * 100)}%</button>
+                                          <div className="relative">
+                                              <button onClick={() => setWbExportOpen(open => !open)} className="bg-gray-900 text-white px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-black transition-colors shadow-lg"><i className="fas fa-download mr-1"></i> Export <i className="fas fa-chevron-down ml-1 text-[9px]"></i></button>
+                                              {wbExportOpen && (
+                                                  <div onClick={() => setWbExportOpen(false)} className="absolute right-0 top-full mt-2 w-56 bg-white border border-gray-200 rounded-xl shadow-xl py-1.5 z-40 text-xs text-gray-700">
+                                                      <div className="px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-400">Page {wbPageNumber}</div>
+                                                      <button onClick={downloadWhiteboard} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-image w-4 mr-2 text-gray-400"></i>PNG (vue actuelle)</button>
+                                                      <button onClick={() => exportWhiteboardSvg(false)} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-bezier-curve w-4 mr-2 text-gray-400"></i>SVG</button>
+                                                      <button onClick={() => exportWhiteboardPdf(false)} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-file-pdf w-4 mr-2 text-gray-400"></i>PDF</button>
+                                                      <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-400 border-t border-gray-100 mt-1">Toutes les pages</div>
+                                                      <button onClick={() => exportWhiteboardSvg(true)} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-bezier-curve w-4 mr-2 text-gray-400"></i>SVG (un fichier par page)</button>
+                                                      <button onClick={() => exportWhiteboardPdf(true)} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-file-pdf w-4 mr-2 text-gray-400"></i>PDF multi-pages</button>
+                                                      <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-400 border-t border-gray-100 mt-1">Tableau complet</div>
+                                                      <button onClick={saveWhiteboardFile} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-floppy-disk w-4 mr-2 text-gray-400"></i>Enregistrer (JSON)</button>
+                                                      <button onClick={() => wbBoardInputRef.current?.click()} className="w-full text-left px-3 py-1.5 hover:bg-gray-100"><i className="fas fa-folder-open w-4 mr-2 text-gray-400"></i>Charger un tableau…</button>
+                                                  </div>
+                                              )}
+                                              <input ref={wbBoardInputRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) loadWhiteboardFile(file); e.target.value = ''; }} />
                                           </div>
-                                          <button onClick={downloadWhiteboard} className="bg-gray-900 text-white px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-black transition-colors shadow-lg"><i className="fas fa-download mr-1"></i> Export</button>
-                                          <button onClick={() => {
-                                              const ctx = canvasRef.current?.getContext('2d');
-                                              ctx?.clearRect(0,0, canvasRef.current!.width, canvasRef.current!.height);
-                                              wbHistoryRef.current.set(wbPageIndex, []);
-                                              broadcastData({type:'activity', activityType:'whiteboard', action:'clear'});
-                                          }} className="text-red-400 hover:text-red-600 p-2 transition-colors"><i className="fas fa-trash"></i></button>
+                                          <button onClick={clearWhiteboardPage} title="Effacer la page (annulable)" className="text-red-400 hover:text-red-600 p-2 transition-colors"><i className="fas fa-trash"></i></button>
                                       </div>
                                   </div>
+                                  <div className="flex-1 flex min-h-0">
+                                  {/* Pages */}
+                                  {wbSidebarOpen && (
+                                      <div className="w-44 shrink-0 border-r border-gray-100 bg-white flex flex-col text-gray-700">
+                                          <div className="flex items-center justify-between px-3 py-2">
+                                              <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Pages ({wbPages.length})</span>
+                                              <button onClick={() => addPage(wbPageId)} title="Nouvelle page" className="w-6 h-6 flex items-center justify-center rounded-md text-gray-500 hover:bg-gray-100 hover:text-black transition-colors"><i className="fas fa-plus text-xs"></i></button>
+                                          </div>
+                                          <div className="flex-1 overflow-y-auto custom-scrollbar px-3 pb-3 space-y-3">
+                                              {wbPages.map((page, index) => (
+                                                  <div
+                                                      key={page.id}
+                                                      draggable
+                                                      onDragStart={() => { wbDragPageRef.current = page.id; }}
+                                                      onDragOver={(e) => e.preventDefault()}
+                                                      onDrop={(e) => {
+                                                          e.preventDefault();
+                                                          const dragged = wbDragPageRef.current;
+                                                          wbDragPageRef.current = null;
+                                                          if (dragged && dragged !== page.id) movePage(dragged, index);
+                                                      }}
+                                                      onClick={() => goToPage(page.id)}
+                                                      className={`group relative cursor-pointer rounded-lg border-2 bg-white overflow-hidden transition-colors ${page.id === wbPageId ? 'border-indigo-500' : 'border-gray-200 hover:border-gray-300'}`}
+                                                  >
+                                                      <canvas
+                                                          ref={el => {
+                                                              if (el && wbThumbsRef.current.get(page.id) !== el) {
+                                                                  wbThumbsRef.current.set(page.id, el);
+                                                                  wbThumbsDirtyRef.current.add(page.id);
+                                                              }
+                                                          }}
+                                                          width={152}
+                                                          height={96}
+                                                          className="block w-full"
+                                                      />
+                                                      <span className="absolute bottom-1 left-1 text-[10px] font-bold font-mono bg-white/90 text-gray-600 px-1.5 rounded">{index + 1}</span>
+                                                      <div onClick={(e) => e.stopPropagation()} className="absolute top-1 right-1 hidden group-hover:flex items-center bg-white/95 border border-gray-200 rounded-md shadow-sm">
+                                                          <button onClick={() => movePage(page.id, index - 1)} disabled={index === 0} title="Monter" className="w-5 h-5 text-gray-500 hover:text-black disabled:opacity-30"><i className="fas fa-chevron-up text-[9px]"></i></button>
+                                                          <button onClick={() => movePage(page.id, index + 1)} disabled={index === wbPages.length - 1} title="Descendre" className="w-5 h-5 text-gray-500 hover:text-black disabled:opacity-30"><i className="fas fa-chevron-down text-[9px]"></i></button>
+                                                          <button onClick={() => addPage(page.id, true)} title="Dupliquer" className="w-5 h-5 text-gray-500 hover:text-black"><i className="fas fa-clone text-[9px]"></i></button>
+                                                          <button onClick={() => deletePage(page.id)} disabled={wbPages.length <= 1} title="Supprimer la page (annulable)" className="w-5 h-5 text-red-400 hover:text-red-600 disabled:opacity-30"><i className="fas fa-trash text-[9px]"></i></button>
+                                                      </div>
+                                                  </div>
+                                              ))}
+                                          </div>
+                                      </div>
+                                  )}
                                   {/* Canvas */}
                                   <div className="flex-1 overflow-hidden relative bg-[#f8fafc]">
-                                    <div className="absolute inset-0 opacity-5" style={{backgroundImage: 'radial-gradient(#94a3b8 1px, transparent 1px)', backgroundSize: '20px 20px'}}></div>
+                                    <div className="absolute inset-0 opacity-5" style={{backgroundImage: 'radial-gradient(#94a3b8 1px, transparent 1px)', backgroundSize: `${20 * wbView.zoom}px ${20 * wbView.zoom}px`, backgroundPosition: `${-wbView.x * wbView.zoom}px ${-wbView.y * wbView.zoom}px`}}></div>
                                     <canvas 
                                         ref={el => {
                                             if (el) {
@@ -1379,47 +3921,67 @@ export default function App() {
                                                 if (el.width !== el.offsetWidth) {
                                                     el.width = el.offsetWidth;
                                                     el.height = el.offsetHeight;
-                                                    const history = wbHistoryRef.current.get(wbPageIndex) || [];
-                                                    const ctx = el.getContext('2d');
-                                                    if(ctx){
-                                                        ctx.clearRect(0,0, el.width, el.height); 
-                                                        history.forEach(line => drawOnCanvas(line, el));
-                                                    }
+                                                    redrawWhiteboard();
                                                 }
                                             }
                                         }}
-                                        className="absolute inset-0 w-full h-full cursor-crosshair touch-none z-10"
-                                        onMouseDown={(e) => {
-                                            const rect = e.currentTarget.getBoundingClientRect();
-                                            const x = (e.clientX - rect.left) / rect.width;
-                                            const y = (e.clientY - rect.top) / rect.height;
-                                            (e.currentTarget as any).isDrawing = true;
-                                            (e.currentTarget as any).lastPos = { x, y };
-                                        }}
-                                        onMouseMove={(e) => {
-                                            const el = e.currentTarget as any;
-                                            if (!el.isDrawing) return;
-                                            const rect = e.currentTarget.getBoundingClientRect();
-                                            const x = (e.clientX - rect.left) / rect.width;
-                                            const y = (e.clientY - rect.top) / rect.height;
-                                            
-                                            const drawData: DrawLine = { prevX: el.lastPos.x, prevY: el.lastPos.y, x, y, color: wbColor, size: wbSize, isEraser: wbIsEraser };
-                                            
-                                            // Draw immediately locally for zero lag
-                                            drawOnCanvas(drawData, e.currentTarget);
-                                            
-                                            // Save to history
-                                            if(!wbHistoryRef.current.has(wbPageIndex)) wbHistoryRef.current.set(wbPageIndex, []);
-                                            wbHistoryRef.current.get(wbPageIndex)?.push(drawData);
-                                            
-                                            // Push to batch queue for network
-                                            wbDrawingQueueRef.current.push(drawData);
-
-                                            el.lastPos = { x, y };
-                                        }}
-                                        onMouseUp={(e) => { (e.currentTarget as any).isDrawing = false; }}
-                                        onMouseLeave={(e) => { (e.currentTarget as any).isDrawing = false; }}
+                                        className={`absolute inset-0 w-full h-full touch-none z-10 ${wbTool === 'select' ? 'cursor-default' : wbTool === 'text' || wbTool === 'note' ? 'cursor-text' : 'cursor-crosshair'}`}
+                                        onPointerDown={onBoardPointerDown}
+                                        onPointerMove={onBoardPointerMove}
+                                        onPointerUp={onBoardPointerUp}
+                                        onPointerCancel={onBoardPointerUp}
+                                        onPointerLeave={() => moveBoardCursor(null)}
+                                        onDoubleClick={onBoardDoubleClick}
+                                    />
+                                    {Array.from(wbRemoteCursors.entries()).map(([id, remote]) => {
+                                        const peer = peers.get(id);
+                                        if (!peer || !remote.cursor || remote.page !== wbPageId) return null;
+                                        const color = cursorColor(id);
+                                        return (
+                                            <div key={id} className="absolute z-20 pointer-events-none transition-[left,top] duration-75 ease-linear" style={boardPointStyle(remote.cursor)}>
+                                                <i className="fas fa-location-arrow -scale-x-100 text-sm drop-shadow" style={{ color }}></i>
+                                                <span className="absolute left-3 top-4 whitespace-nowrap text-[10px] font-bold text-white px-1.5 py-0.5 rounded-md shadow" style={{ backgroundColor: color }}>{peer.displayName}</span>
+                                            </div>
+                                        );
+                                    })}
+                                    {wbFollowing && (
+                                        <div className="absolute z-30 top-3 left-1/2 -translate-x-1/2 flex items-center space-x-2 bg-gray-900 text-white text-xs font-bold pl-3 pr-1 py-1 rounded-full shadow-lg">
+                                            <i className="fas fa-eye" style={{ color: cursorColor(wbFollowing) }}></i>
+                                            <span>Vous suivez {peers.get(wbFollowing)?.displayName || 'un participant'}</span>
+                                            <button onClick={() => followPeer(null)} className="bg-white/10 hover:bg-white/20 px-2 py-0.5 rounded-full transition-colors">Arrêter</button>
+                                        </div>
+                                    )}
+                                    <canvas
+                                        ref={wbMinimapRef}
+                                        width={200}
+                                        height={140}
+                                        title="Aperçu de la page (cliquer pour s'y rendre)"
+                                        className="absolute z-20 bottom-4 right-4 bg-white/90 border border-gray-200 rounded-xl shadow-lg cursor-pointer touch-none"
+                                        onPointerDown={onMinimapPointer}
+                                        onPointerMove={onMinimapPointer}
                                     />
+                                    {wbSelection && (
+                                        <div className="absolute z-20 border-2 border-indigo-500 border-dashed rounded pointer-events-none" style={{ ...boardBoxStyle(wbSelection.bounds), margin: '-6px', padding: '6px', boxSizing: 'content-box' }}>
+                                            <button onClick={deleteSelection} title="Supprimer (Suppr)" className="pointer-events-auto absolute -top-9 right-0 bg-white border border-gray-200 text-red-500 hover:bg-red-50 w-7 h-7 rounded-md shadow flex items-center justify-center"><i className="fas fa-trash text-xs"></i></button>
+                                        </div>
+                                    )}
+                                    {wbSelection?.handle && (
+                                        <div onPointerDown={startResize} title="Redimensionner" className="absolute z-30 w-3 h-3 -ml-1.5 -mt-1.5 bg-white border-2 border-indigo-500 rounded-sm cursor-nwse-resize touch-none" style={boardPointStyle(wbSelection.handle)}></div>
+                                    )}
+                                    {wbEditor && (
+                                        <textarea
+                                            autoFocus
+                                            value={wbEditor.text}
+                                            maxLength={MAX_BOARD_TEXT}
+                                            onChange={(e) => setWbEditor({ ...wbEditor, text: e.target.value })}
+                                            onBlur={commitTextEditor}
+                                            onKeyDown={(e) => { if (e.key === 'Escape') setWbEditor(null); }}
+                                            placeholder={wbEditor.shape.kind === 'note' ? 'Note…' : 'Texte…'}
+                                            className={`absolute z-30 resize-none outline-none border-2 border-indigo-400 rounded leading-tight ${wbEditor.shape.kind === 'note' ? 'bg-yellow-200 shadow-lg' : 'bg-white/90'}`}
+                                            style={{ ...boardBoxStyle(wbEditor.shape), color: wbEditor.shape.color, padding: wbEditor.shape.kind === 'note' ? NOTE_PADDING * wbView.zoom : 0, fontSize: fontSizeFor(wbEditor.shape.size) * wbView.zoom, lineHeight: 1.25 }}
+                                        />
+                                    )}
+                                  </div>
                                   </div>
                               </div>
                           )}
@@ -1427,20 +3989,35 @@ export default function App() {
                   </div>
               )}
 
+              {/* Stage + filmstrip */}
+              {layout.arrangement === 'stage' && (
+                  <div className={`flex flex-col gap-4 w-full h-full max-w-7xl animate-in zoom-in duration-300 ${pinnedView === 'activity' ? 'opacity-0 pointer-events-none' : ''}`}>
+                      <div className={`flex-1 min-h-0 grid gap-4 ${layout.stage.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                          {layout.stage.map(tile => <div key={tile.key} className="min-h-0">{renderTile(tile)}</div>)}
+                      </div>
+                      {layout.filmstrip.length > 0 && (
+                          <div className="h-32 flex gap-4 overflow-x-auto custom-scrollbar shrink-0">
+                              {layout.filmstrip.map(tile => <div key={tile.key} className="w-48 h-full shrink-0">{renderTile(tile, true)}</div>)}
+                          </div>
+                      )}
+                  </div>
+              )}
+
               {/* Grid */}
-              <div className={`grid gap-6 w-full h-full max-w-7xl transition-all duration-500 ease-out-expo ${pinnedView === 'activity' ? 'opacity-0 pointer-events-none scale-95' : ''} ${activePeers.length === 0 ? 'grid-cols-1' : activePeers.length === 1 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-2'}`}>
-                  {renderVideoUnit('local')}
-                  {activePeers.map(peer => <div key={peer.id} className="w-full h-full animate-in zoom-in duration-500">{renderVideoUnit(peer)}</div>)}
+              {layout.arrangement === 'grid' && <div className={`grid gap-6 w-full h-full max-w-7xl transition-all duration-500 ease-out-expo ${pinnedView === 'activity' ? 'opacity-0 pointer-events-none scale-95' : ''} ${gridColumns}`}>
+                  {layout.stage.map(tile => tile.key === 'local'
+                      ? <React.Fragment key={tile.key}>{renderTile(tile)}</React.Fragment>
+                      : <div key={tile.key} className="w-full h-full animate-in zoom-in duration-500">{renderTile(tile)}</div>)}
                   {activePeers.length === 0 && (
                       <div className="border-2 border-dashed border-white/5 rounded-3xl flex flex-col items-center justify-center text-slate-600 bg-white/[0.02]">
                           <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center mb-4">
                               <i className="fas fa-spinner fa-spin text-xl text-slate-500"></i>
                           </div>
                           <p className="font-medium text-sm">En attente de participants...</p>
-                          <p className="text-xs text-slate-600 mt-2">Invitez des amis avec l'ID en haut à gauche</p>
+                          <p className="text-xs text-slate-600 mt-2">Partagez le lien d'invitation en haut à gauche</p>
                       </div>
                   )}
-              </div>
+              </div>}
           </div>
 
           {/* Floating Dock (Toolbar) */}
@@ -1449,7 +4026,39 @@ export default function App() {
                    <button onClick={toggleMute} className={`w-12 h-12 rounded-full flex items-center justify-center text-lg transition-all duration-300 hover:scale-105 active:scale-95 ${!isMuted ? 'text-slate-300 hover:bg-white/10' : 'bg-red-500 text-white shadow-lg shadow-red-500/30'}`}><i className={`fas ${!isMuted?'fa-microphone':'fa-microphone-slash'}`}></i></button>
                    <button onClick={toggleDeafen} className={`w-12 h-12 rounded-full flex items-center justify-center text-lg transition-all duration-300 hover:scale-105 active:scale-95 ${!isDeafened ? 'text-slate-300 hover:bg-white/10' : 'bg-red-500 text-white shadow-lg shadow-red-500/30'}`}><i className={`fas ${!isDeafened?'fa-headphones':'fa-headphones-slash'}`}></i></button>
                    <button onClick={toggleVideo} className={`w-12 h-12 rounded-full flex items-center justify-center text-lg transition-all duration-300 hover:scale-105 active:scale-95 ${isVideoEnabled ? 'text-slate-300 hover:bg-white/10' : 'bg-red-500 text-white shadow-lg shadow-red-500/30'}`}><i className={`fas ${isVideoEnabled?'fa-video':'fa-video-slash'}`}></i></button>
-                   <button onClick={toggleScreenShare} className={`w-12 h-12 rounded-full flex items-center justify-center text-lg transition-all duration-300 hover:scale-105 active:scale-95 ${isScreenSharing ? 'bg-green-500 text-white shadow-lg shadow-green-500/30' : 'text-slate-300 hover:bg-white/10'}`}><i className="fas fa-desktop"></i></button>
+                   <div className="relative">
+                       <button onClick={toggleScreenShare} className={`w-12 h-12 rounded-full flex items-center justify-center text-lg transition-all duration-300 hover:scale-105 active:scale-95 ${isScreenSharing ? 'bg-green-500 text-white shadow-lg shadow-green-500/30' : 'text-slate-300 hover:bg-white/10'}`}><i className="fas fa-desktop"></i></button>
+                       {showShareMenu && (
+                           <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-64 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl p-4 space-y-3 text-sm">
+                               <div className="text-[10px] font-bold text-slate-500 uppercase">Partager l'écran</div>
+                               <div className="flex bg-slate-800 rounded-xl p-1">
+                                   {([['detail', 'Texte, détails'], ['motion', 'Vidéo fluide']] as const).map(([hint, label]) => (
+                                       <button key={hint} onClick={() => setScreenHint(hint)} className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-colors ${screenHint === hint ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{label}</button>
+                                   ))}
+                               </div>
+                               <label className="flex items-center justify-between text-slate-300 cursor-pointer">
+                                   <span>Partager le son</span>
+                                   <input type="checkbox" checked={shareScreenAudio} onChange={e => setShareScreenAudio(e.target.checked)} className="w-4 h-4 accent-indigo-500"/>
+                               </label>
+                               <button onClick={startScreenShare} className="w-full bg-emerald-500 hover:bg-emerald-400 text-white rounded-xl py-2 text-xs font-bold transition-colors">Démarrer le partage</button>
+                           </div>
+                       )}
+                   </div>
+                   {canRecord() && (
+                       <div className="relative">
+                           <button onClick={() => recordingSince !== null ? stopSessionRecording() : setShowRecordMenu(prev => !prev)} title={recordingSince !== null ? "Arrêter l'enregistrement" : 'Enregistrer'} className={`h-12 rounded-full flex items-center justify-center text-lg transition-all duration-300 hover:scale-105 active:scale-95 ${recordingSince !== null ? 'bg-red-500 text-white shadow-lg shadow-red-500/30 px-4 space-x-2' : 'w-12 text-slate-300 hover:bg-white/10'}`}>
+                               <i className={`fas ${recordingSince !== null ? 'fa-stop' : 'fa-record-vinyl'}`}></i>
+                               {recordingSince !== null && <span className="text-xs font-mono font-bold">{formatDuration(recordingElapsed)}</span>}
+                           </button>
+                           {showRecordMenu && (
+                               <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-56 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl p-2 text-sm">
+                                   <div className="text-[10px] font-bold text-slate-500 uppercase px-2 py-1">Enregistrer la session</div>
+                                   <button onClick={() => startSessionRecording(false)} className="w-full text-left px-2 py-2 rounded-lg text-slate-200 hover:bg-white/5"><i className="fas fa-video w-5 text-red-400"></i>Vidéo et audio</button>
+                                   <button onClick={() => startSessionRecording(true)} className="w-full text-left px-2 py-2 rounded-lg text-slate-200 hover:bg-white/5"><i className="fas fa-microphone w-5 text-red-400"></i>Audio seulement</button>
+                               </div>
+                           )}
+                       </div>
+                   )}
                    
                    <div className="w-px h-6 bg-white/10 mx-2"></div>
                    
@@ -1476,25 +4085,24 @@ export default function App() {
                        <p className="text-xs">Pas encore de messages</p>
                    </div>
                )}
-               {chatHistory.map(msg => (
-                   <div key={msg.id} className="animate-in slide-in-from-right-4 duration-300">
-                       <div className="flex items-baseline justify-between mb-1 px-1">
-                           <span className="font-bold text-xs text-indigo-300">{msg.senderName}</span>
-                           <span className="text-[10px] text-slate-500">{new Date(msg.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</span>
-                       </div>
-                       <div className="bg-white/5 rounded-2xl rounded-tl-none p-3 text-sm text-slate-200 border border-white/5 shadow-sm">
-                           {msg.text}
-                           {msg.image && <img src={msg.image} className="mt-2 rounded-lg border border-white/10" />}
-                       </div>
-                   </div>
-               ))}
+               {chatHistory.map(msg => renderChatMessage(msg))}
                <div ref={chatBottomRef}></div>
            </div>
            <div className="p-4 bg-transparent">
+               {(replyingTo || editingMessageId) && (
+                   <div className="flex items-center justify-between text-[10px] text-slate-400 bg-white/5 border border-white/5 rounded-xl px-3 py-2 mb-2">
+                       <span className="truncate">
+                           <i className={`fas ${editingMessageId ? 'fa-pen' : 'fa-reply'} mr-2 text-indigo-400`}></i>
+                           {editingMessageId ? 'Modification du message' : <>Réponse à <span className="font-bold text-slate-300">{replyingTo!.senderName}</span></>}
+                       </span>
+                       <button onClick={cancelComposer} className="ml-2 text-slate-500 hover:text-white"><i className="fas fa-times"></i></button>
+                   </div>
+               )}
                <div className="bg-white/5 rounded-full flex items-center p-1.5 border border-white/10 shadow-inner focus-within:border-indigo-500/50 focus-within:bg-white/10 transition-all">
                    <button onClick={()=>mediaUploadRef.current?.click()} className="w-8 h-8 rounded-full bg-slate-800 text-slate-400 hover:text-white flex items-center justify-center transition-colors"><i className="fas fa-plus text-xs"></i></button>
-                   <input type="text" value={messageInput} onChange={e=>setMessageInput(e.target.value)} onKeyDown={e=>{if(e.key==='Enter'&&messageInput.trim()){ broadcastData({type:'chat',text:messageInput,sender:peerId||'',senderName:displayName}); setChatHistory(prev=>[...prev,{id:Date.now().toString(),sender:peerId||'',senderName:displayName,text:messageInput,timestamp:Date.now()}]); setMessageInput(''); }}} className="bg-transparent flex-1 focus:outline-none text-xs px-3 text-white placeholder-slate-500" placeholder="Envoyer un message..." />
-                   <input type="file" ref={mediaUploadRef} className="hidden" onChange={(e)=>{const f=e.target.files?.[0]; if(f){const r=new FileReader(); r.onloadend=()=>{broadcastData({type:'file-share',file:r.result as string,fileName:f.name,fileType:f.type,sender:peerId||'',senderName:displayName}); setChatHistory(prev=>[...prev,{id:Date.now().toString(),sender:peerId||'',senderName:displayName,image:r.result as string,timestamp:Date.now()}]);}; r.readAsDataURL(f);}}} />
+                   {/* Shift+Enter for a new line, needed for ``` code blocks */}
+                   <textarea rows={1} value={messageInput} maxLength={MAX_CHAT_LENGTH} onChange={e=>setMessageInput(e.target.value)} onKeyDown={e=>{if(e.key==='Enter' && !e.shiftKey){ e.preventDefault(); sendChatMessage(); } else if(e.key==='Escape') cancelComposer();}} className="bg-transparent flex-1 focus:outline-none text-xs px-3 py-2 text-white placeholder-slate-500 resize-none max-h-24" placeholder="Envoyer un message..." />
+                   <input type="file" ref={mediaUploadRef} className="hidden" onChange={(e)=>{const f=e.target.files?.[0]; if(f) shareFile(f); e.target.value='';}} />
                </div>
            </div>
        </div>
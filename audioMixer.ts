@@ -0,0 +1,110 @@
+// --- Remote Audio Mixer ---
+// Every peer's stream goes through one Web Audio graph instead of its <video> element:
+// source → gain (per-peer volume, can boost past 100%) → stereo panner (tile position)
+// → bus → master gain (master volume, deafen) → one <audio> element playing the mix.
+// The bus is the mix before our own listening settings, which is what a recording wants.
+// The element is what carries the output device: setSinkId on media elements is far
+// more widely supported than on AudioContext, and there is a single one to keep in sync.
+// Chrome only pulls audio from a remote WebRTC stream while a media element also plays
+// it, so the tiles keep their srcObject but stay muted.
+const PAN_SPREAD = 0.6; // Tiles at the screen edges pan this far, not hard left/right
+const RAMP = 0.05; // Time constant for volume and pan changes, in seconds
+
+export interface MixerChannel {
+    source: MediaStreamAudioSourceNode;
+    gain: GainNode;
+    panner: StereoPannerNode;
+    analyser: AnalyserNode; // Pre-fader, so speaking detection ignores our volume settings
+    stream: MediaStream;
+}
+
+export interface AudioMixer {
+    ctx: AudioContext;
+    bus: GainNode;
+    master: GainNode;
+    element: HTMLAudioElement;
+    channels: Map<string, MixerChannel>;
+}
+
+export const canSelectOutput = () => 'setSinkId' in HTMLMediaElement.prototype;
+
+export const createMixer = (ctx: AudioContext): AudioMixer => {
+    const bus = ctx.createGain();
+    const master = ctx.createGain();
+    const output = ctx.createMediaStreamDestination();
+    bus.connect(master);
+    master.connect(output);
+    const element = new Audio();
+    element.srcObject = output.stream;
+    element.play().catch(() => {});
+    return { ctx, bus, master, element, channels: new Map() };
+};
+
+export const removeChannel = (mixer: AudioMixer, peerId: string) => {
+    const channel = mixer.channels.get(peerId);
+    if (!channel) return;
+    channel.source.disconnect();
+    channel.gain.disconnect();
+    channel.panner.disconnect();
+    mixer.channels.delete(peerId);
+};
+
+// A reconnect hands us a new stream for the same peer; the old channel is replaced
+export const connectChannel = (mixer: AudioMixer, peerId: string, stream: MediaStream, analyser: AnalyserNode, volume: number) => {
+    if (mixer.channels.get(peerId)?.stream === stream) return;
+    removeChannel(mixer, peerId);
+    if (!stream.getAudioTracks().length) return;
+    const { ctx } = mixer;
+    const channel: MixerChannel = {
+        source: ctx.createMediaStreamSource(stream),
+        gain: ctx.createGain(),
+        panner: ctx.createStereoPanner(),
+        analyser,
+        stream,
+    };
+    channel.gain.gain.value = volume;
+    channel.source.connect(analyser);
+    channel.source.connect(channel.gain);
+    channel.gain.connect(channel.panner);
+    channel.panner.connect(mixer.bus);
+    mixer.channels.set(peerId, channel);
+    // Autoplay policy: the element may have been created before any user gesture
+    mixer.element.play().catch(() => {});
+};
+
+const rampTo = (param: AudioParam, value: number, ctx: AudioContext) => {
+    if (Math.abs(param.value - value) < 0.001) return;
+    param.setTargetAtTime(value, ctx.currentTime, RAMP);
+};
+
+export const setChannelVolume = (mixer: AudioMixer, peerId: string, volume: number) => {
+    const channel = mixer.channels.get(peerId);
+    if (channel) rampTo(channel.gain.gain, volume, mixer.ctx);
+};
+
+export const setChannelPan = (mixer: AudioMixer, peerId: string, pan: number) => {
+    const channel = mixer.channels.get(peerId);
+    if (channel) rampTo(channel.panner.pan, pan, mixer.ctx);
+};
+
+export const setMasterVolume = (mixer: AudioMixer, volume: number, deafened: boolean) => {
+    rampTo(mixer.master.gain, deafened ? 0 : volume, mixer.ctx);
+};
+
+// '' is the system default. Resolves false when the browser refused or can't choose.
+export const setOutputDevice = async (mixer: AudioMixer, deviceId: string) => {
+    if (!canSelectOutput()) return false;
+    try {
+        await (mixer.element as any).setSinkId(deviceId);
+        return true;
+    } catch (e) {
+        console.warn('Could not switch audio output', e);
+        return false;
+    }
+};
+
+// Horizontal position of a tile on screen as a pan value
+export const panForRect = (rect: DOMRect) => {
+    const center = (rect.left + rect.width / 2) / window.innerWidth;
+    return Math.max(-1, Math.min(1, center * 2 - 1)) * PAN_SPREAD;
+};
@@ -0,0 +1,151 @@
+import { AudioSettings } from './types';
+
+// --- Microphone Processing ---
+// The browser's noise suppression, echo cancellation and auto gain are capture
+// constraints, so changing one means re-opening the microphone. Everything after capture
+// is ours: source → input gain → [compressor] → gate → destination, with an analyser on
+// the input gain feeding the meter, voice activity and the noise gate.
+// The gate is a GainNode driven from the analysis loop: voice mode opens it while the
+// level is above the sensitivity (held a little so word endings aren't clipped),
+// push-to-talk while the key is down, and the noise gate also closes it on near-silence.
+const STORAGE_KEY = 'cosmos-audio';
+const METER_FLOOR_DB = -60; // Bottom of the 0-1 level scale
+const ANALYSER_SIZE = 512;
+const VOICE_HOLD_MS = 400;
+const NOISE_GATE_LEVEL = 0.2; // About -48 dBFS
+const NOISE_GATE_HOLD_MS = 150;
+const GATE_ATTACK = 0.01; // Time constants, in seconds
+const GATE_RELEASE = 0.08;
+export const SPEAKING_LEVEL = 0.3; // About -42 dBFS: lights the speaking ring, for us and for peers
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    noiseSuppression: true,
+    echoCancellation: true,
+    autoGainControl: true,
+    noiseGate: false,
+    compressor: false,
+    inputMode: 'voice',
+    sensitivity: 0, // Always transmitting, as before voice activity existed
+    pushToTalkKey: 'Space',
+    outputDeviceId: '',
+    masterVolume: 1,
+};
+
+export const loadAudioSettings = (): AudioSettings => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return { ...DEFAULT_AUDIO_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (e) {
+        return DEFAULT_AUDIO_SETTINGS;
+    }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const micConstraints = (settings: AudioSettings, deviceId?: string): MediaTrackConstraints => ({
+    ...(deviceId && { deviceId: { exact: deviceId } }),
+    noiseSuppression: settings.noiseSuppression,
+    echoCancellation: settings.echoCancellation,
+    autoGainControl: settings.autoGainControl,
+});
+
+// Whether going from one to the other needs the microphone re-opened
+export const captureChanged = (a: AudioSettings, b: AudioSettings) =>
+    a.noiseSuppression !== b.noiseSuppression || a.echoCancellation !== b.echoCancellation || a.autoGainControl !== b.autoGainControl;
+
+export const formatKeyCode = (code: string) =>
+    code === 'Space' ? 'Espace' : code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Pavé ');
+
+export interface MicChain {
+    source: MediaStreamAudioSourceNode;
+    input: GainNode;
+    compressor: DynamicsCompressorNode;
+    gate: GainNode;
+    analyser: AnalyserNode;
+    destination: MediaStreamAudioDestinationNode;
+    gateOpen: boolean;
+    voiceUntil: number;
+    noiseUntil: number;
+}
+
+export const createLevelAnalyser = (ctx: AudioContext) => {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = ANALYSER_SIZE;
+    return analyser;
+};
+
+// The compressor is switched in and out by rewiring, without rebuilding the chain
+export const routeMicChain = (chain: MicChain, settings: AudioSettings) => {
+    chain.input.disconnect();
+    chain.compressor.disconnect();
+    chain.input.connect(chain.analyser);
+    if (settings.compressor) {
+        chain.input.connect(chain.compressor);
+        chain.compressor.connect(chain.gate);
+    } else {
+        chain.input.connect(chain.gate);
+    }
+};
+
+export const createMicChain = (ctx: AudioContext, stream: MediaStream, settings: AudioSettings, gain: number): MicChain => {
+    const chain: MicChain = {
+        source: ctx.createMediaStreamSource(stream),
+        input: ctx.createGain(),
+        compressor: ctx.createDynamicsCompressor(),
+        gate: ctx.createGain(),
+        analyser: createLevelAnalyser(ctx),
+        destination: ctx.createMediaStreamDestination(),
+        gateOpen: true,
+        voiceUntil: 0,
+        noiseUntil: 0,
+    };
+    chain.input.gain.value = gain;
+    // Evens out speech without pumping
+    chain.compressor.threshold.value = -24;
+    chain.compressor.knee.value = 12;
+    chain.compressor.ratio.value = 4;
+    chain.compressor.attack.value = 0.005;
+    chain.compressor.release.value = 0.15;
+    chain.source.connect(chain.input);
+    chain.gate.connect(chain.destination);
+    routeMicChain(chain, settings);
+    return chain;
+};
+
+export const closeMicChain = (chain: MicChain) => {
+    [chain.source, chain.input, chain.compressor, chain.gate].forEach(node => node.disconnect());
+};
+
+// RMS of what the analyser currently holds, from METER_FLOOR_DB..0 dBFS mapped to 0-1
+let samples = new Float32Array(ANALYSER_SIZE);
+export const readLevel = (analyser: AnalyserNode) => {
+    if (samples.length !== analyser.fftSize) samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const db = 20 * Math.log10(Math.sqrt(sum / samples.length) || 1e-8);
+    return Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB));
+};
+
+// Called every frame with the current level; ramps the gate open or shut and returns
+// whether we're transmitting. `forceOpen` keeps voice mode talking while the analysis
+// loop is throttled (background tab).
+export const updateGate = (
+    chain: MicChain, ctx: AudioContext, settings: AudioSettings, level: number,
+    { pushToTalk, forceOpen }: { pushToTalk: boolean; forceOpen: boolean },
+) => {
+    const now = performance.now();
+    if (level >= settings.sensitivity) chain.voiceUntil = now + VOICE_HOLD_MS;
+    if (level >= NOISE_GATE_LEVEL) chain.noiseUntil = now + NOISE_GATE_HOLD_MS;
+    const wanted = settings.inputMode === 'push-to-talk'
+        ? pushToTalk
+        : forceOpen || settings.sensitivity === 0 || now < chain.voiceUntil;
+    const open = wanted && (!settings.noiseGate || forceOpen || now < chain.noiseUntil);
+    if (open !== chain.gateOpen) {
+        chain.gateOpen = open;
+        chain.gate.gain.setTargetAtTime(open ? 1 : 0, ctx.currentTime, open ? GATE_ATTACK : GATE_RELEASE);
+    }
+    return open;
+};
@@ -0,0 +1,336 @@
+import { BoardFile, BoardFrame, BoardObject, BoardShape, Stroke, WhiteboardOp } from './types';
+import {
+    WhiteboardDoc, NOTE_FILL, NOTE_PADDING, visibleObjects, objectBounds, unionFrames, normalizeFrame,
+    fontSizeFor, widthAt, curveTo, wrapText, arrowHead, orderedPages, positionBetween, copyObjectOps,
+} from './whiteboard';
+
+// --- Whiteboard Export & Import ---
+// Pages are exported from the board model rather than the canvas, so SVG and PDF stay
+// vector and cover everything on a page whatever part of it we're looking at. A page's
+// extent is the union of its objects plus a margin.
+// A saved board is every page's visible objects, in page order (no op history). Loading
+// one replays it as new pages through the normal ops, so every connected peer gets it too.
+export const BOARD_FILE_FORMAT = 'cosmos-whiteboard';
+export const BOARD_FILE_VERSION = 1;
+export const MAX_FILE_PAGES = 1000;
+export const MAX_FILE_OBJECTS = 20000; // Per page
+const PAGE_MARGIN = 40;
+const EMPTY_PAGE: BoardFrame = { x: 0, y: 0, w: 800, h: 600 };
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+const LINE_HEIGHT = 1.25;
+
+const pageBounds = (objects: BoardObject[]): BoardFrame => {
+    const content = unionFrames(objects.map(objectBounds));
+    if (!content) return EMPTY_PAGE;
+    return { x: content.x - PAGE_MARGIN, y: content.y - PAGE_MARGIN, w: content.w + PAGE_MARGIN * 2, h: content.h + PAGE_MARGIN * 2 };
+};
+
+const isEraser = (object: BoardObject) => object.kind === 'stroke' && object.isEraser;
+
+// Text is wrapped exactly like on the canvas, so lines break at the same words
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+const textLayout = (shape: BoardShape) => {
+    const box = normalizeFrame(shape);
+    const padding = shape.kind === 'note' ? NOTE_PADDING : 0;
+    const fontSize = fontSizeFor(shape.size);
+    measureCtx = measureCtx || document.createElement('canvas').getContext('2d');
+    if (!measureCtx) return { box, padding, fontSize, lines: [] };
+    measureCtx.font = `${fontSize}px ${FONT_FAMILY}`;
+    return { box, padding, fontSize, lines: wrapText(measureCtx, shape.text || '', box.w - padding * 2) };
+};
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+// --- SVG ---
+const escapeXml = (text: string) =>
+    text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+const svgStroke = (stroke: Stroke, color: string) => {
+    const { points } = stroke;
+    if (!points.length) return '';
+    const style = `fill="none" stroke="${color}" stroke-linecap="round" stroke-linejoin="round"`;
+    if (points.length === 1) {
+        return `<circle cx="${round(points[0].x)}" cy="${round(points[0].y)}" r="${round(widthAt(stroke, points[0]) / 2)}" fill="${color}"/>`;
+    }
+    const segment = (i: number) => `C${curveTo(points, i).map(round).join(' ')}`;
+    const start = (i: number) => `M${round(points[i].x)} ${round(points[i].y)}`;
+    // Pressure changes the width along the way, so each segment is its own path
+    if (points.some(p => p.p !== undefined)) {
+        return points.slice(1).map((point, i) =>
+            `<path d="${start(i)}${segment(i + 1)}" stroke-width="${round((widthAt(stroke, points[i]) + widthAt(stroke, point)) / 2)}" ${style}/>`).join('');
+    }
+    return `<path d="${start(0)}${points.slice(1).map((_, i) => segment(i + 1)).join('')}" stroke-width="${stroke.size}" ${style}/>`;
+};
+
+const svgShape = (shape: BoardShape, clipId: string) => {
+    const { x, y, w, h, color } = shape;
+    const box = normalizeFrame(shape);
+    const style = `fill="none" stroke="${color}" stroke-width="${shape.size}" stroke-linecap="round" stroke-linejoin="round"`;
+    switch (shape.kind) {
+        case 'line':
+        case 'arrow': {
+            const tip = `M${round(x + w)} ${round(y + h)}`;
+            const barbs = shape.kind === 'arrow' ? arrowHead(shape).map(b => `${tip}L${round(b.x)} ${round(b.y)}`).join('') : '';
+            return `<path d="M${round(x)} ${round(y)}L${round(x + w)} ${round(y + h)}${barbs}" ${style}/>`;
+        }
+        case 'rect':
+            return `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.w)}" height="${round(box.h)}" ${style}/>`;
+        case 'ellipse':
+            return `<ellipse cx="${round(box.x + box.w / 2)}" cy="${round(box.y + box.h / 2)}" rx="${round(box.w / 2)}" ry="${round(box.h / 2)}" ${style}/>`;
+        case 'note':
+        case 'text': {
+            const { padding, fontSize, lines } = textLayout(shape);
+            const rect = `x="${round(box.x)}" y="${round(box.y)}" width="${round(box.w)}" height="${round(box.h)}"`;
+            const note = shape.kind === 'note' ? `<rect ${rect} fill="${NOTE_FILL}"/>` : '';
+            const tspans = lines.map((line, i) =>
+                `<tspan x="${round(box.x + padding)}" y="${round(box.y + padding + i * fontSize * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`).join('');
+            return `${note}<clipPath id="${clipId}"><rect ${rect}/></clipPath>`
+                + `<text clip-path="url(#${clipId})" font-family="${FONT_FAMILY}" font-size="${fontSize}" fill="${color}" dominant-baseline="text-before-edge" xml:space="preserve">${tspans}</text>`;
+        }
+        case 'image':
+            return shape.src
+                ? `<image href="${shape.src}" x="${round(box.x)}" y="${round(box.y)}" width="${round(box.w)}" height="${round(box.h)}" preserveAspectRatio="none"/>`
+                : '';
+    }
+};
+
+// An eraser removes what was drawn before it, so everything so far goes into a group
+// masked by the eraser's path, like the canvas' destination-out.
+export const pageToSvg = (doc: WhiteboardDoc, page: string) => {
+    const objects = visibleObjects(doc, page);
+    const { x, y, w, h } = pageBounds(objects.filter(o => !isEraser(o)));
+    const area = `x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}"`;
+    const masks: string[] = [];
+    let body = '';
+    objects.forEach((object, i) => {
+        if (object.kind === 'stroke' && object.isEraser) {
+            masks.push(`<mask id="erase-${i}" maskUnits="userSpaceOnUse" ${area}><rect ${area} fill="white"/>${svgStroke(object, 'black')}</mask>`);
+            body = `<g mask="url(#erase-${i})">${body}</g>`;
+        } else {
+            body += object.kind === 'stroke' ? svgStroke(object, object.color) : svgShape(object, `clip-${i}`);
+        }
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>\n`
+        + `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${round(x)} ${round(y)} ${round(w)} ${round(h)}" width="${round(w)}" height="${round(h)}">`
+        + `<defs>${masks.join('')}</defs><rect ${area} fill="#ffffff"/>${body}</svg>`;
+};
+
+// --- PDF ---
+// Hand-written PDF 1.4: one A4 landscape sheet per board page with the page fitted in,
+// Helvetica for text and JPEG for images. PDF has no destination-out, so erasers paint
+// the white background back, which looks the same on paper.
+const A4_WIDTH = 842;
+const A4_HEIGHT = 595;
+const SHEET_MARGIN = 28;
+const KAPPA = 0.5523; // Bézier approximation of a quarter circle
+
+// Helvetica's WinAnsi encoding is Latin-1 plus a few typographic characters; the rest becomes '?'
+const WIN_ANSI: Record<string, number> = {
+    '€': 0x80, '…': 0x85, 'Œ': 0x8c, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '–': 0x96, '—': 0x97, 'œ': 0x9c,
+};
+
+const pdfString = (text: string) => '(' + Array.from(text, c => {
+    const code = c.charCodeAt(0);
+    const byte = WIN_ANSI[c] ?? ((code >= 0x20 && code < 0x80) || (code >= 0xa0 && code < 0x100) ? code : 0x3f);
+    const char = String.fromCharCode(byte);
+    return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+}).join('') + ')';
+
+const pdfColor = (hex: string) => {
+    const digits = hex.length <= 5 ? hex.slice(1, 4).replace(/./g, d => d + d) : hex.slice(1, 7);
+    return [0, 2, 4].map(i => round(parseInt(digits.slice(i, i + 2), 16) / 255)).join(' ');
+};
+
+interface PdfImage {
+    name: string;
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+// Re-encodes any board image as JPEG on white (PDF embeds JPEG as is)
+const toJpeg = (src: string, name: string) => new Promise<PdfImage>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject(new Error('no canvas context'));
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        canvas.toBlob(blob => {
+            if (!blob) return reject(new Error('jpeg encoding failed'));
+            blob.arrayBuffer().then(buffer => resolve({ name, data: new Uint8Array(buffer), width: canvas.width, height: canvas.height }), reject);
+        }, 'image/jpeg', 0.9);
+    };
+    img.onerror = () => reject(new Error('unreadable image'));
+    img.src = src;
+});
+
+const pdfStroke = (stroke: Stroke) => {
+    const { points } = stroke;
+    if (!points.length) return [];
+    const ops = [`${pdfColor(stroke.isEraser ? '#ffffff' : stroke.color)} RG`];
+    const start = (i: number) => `${round(points[i].x)} ${round(points[i].y)} m`;
+    const segment = (i: number) => `${curveTo(points, i).map(round).join(' ')} c`;
+    if (points.length === 1) {
+        ops.push(`${round(widthAt(stroke, points[0]))} w`, start(0), `${round(points[0].x + 0.01)} ${round(points[0].y)} l S`);
+    } else if (points.some(p => p.p !== undefined)) {
+        points.slice(1).forEach((point, i) =>
+            ops.push(`${round((widthAt(stroke, points[i]) + widthAt(stroke, point)) / 2)} w`, start(i), segment(i + 1), 'S'));
+    } else {
+        ops.push(`${stroke.size} w`, start(0), ...points.slice(1).map((_, i) => segment(i + 1)), 'S');
+    }
+    return ops;
+};
+
+const pdfShape = (shape: BoardShape, images: Map<string, PdfImage>) => {
+    const { x, y, w, h } = shape;
+    const box = normalizeFrame(shape);
+    const ops = [`${pdfColor(shape.color)} RG`, `${shape.size} w`];
+    switch (shape.kind) {
+        case 'line':
+        case 'arrow': {
+            ops.push(`${round(x)} ${round(y)} m`, `${round(x + w)} ${round(y + h)} l`);
+            if (shape.kind === 'arrow') {
+                arrowHead(shape).forEach(b => ops.push(`${round(x + w)} ${round(y + h)} m`, `${round(b.x)} ${round(b.y)} l`));
+            }
+            ops.push('S');
+            break;
+        }
+        case 'rect':
+            ops.push(`${round(box.x)} ${round(box.y)} ${round(box.w)} ${round(box.h)} re S`);
+            break;
+        case 'ellipse': {
+            const cx = box.x + box.w / 2, cy = box.y + box.h / 2, rx = box.w / 2, ry = box.h / 2;
+            const kx = rx * KAPPA, ky = ry * KAPPA;
+            ops.push(
+                `${round(cx + rx)} ${round(cy)} m`,
+                [cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry].map(round).join(' ') + ' c',
+                [cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy].map(round).join(' ') + ' c',
+                [cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry].map(round).join(' ') + ' c',
+                [cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy].map(round).join(' ') + ' c',
+                'S',
+            );
+            break;
+        }
+        case 'note':
+        case 'text': {
+            const { padding, fontSize, lines } = textLayout(shape);
+            const rect = `${round(box.x)} ${round(box.y)} ${round(box.w)} ${round(box.h)} re`;
+            if (shape.kind === 'note') ops.push(`${pdfColor(NOTE_FILL)} rg`, `${rect} f`);
+            // The sheet is flipped to world coordinates, so the text matrix flips glyphs back upright
+            ops.push('q', `${rect} W n`, `${pdfColor(shape.color)} rg`, 'BT', `/F1 ${round(fontSize)} Tf`);
+            lines.forEach((line, i) => ops.push(
+                `1 0 0 -1 ${round(box.x + padding)} ${round(box.y + padding + i * fontSize * LINE_HEIGHT + fontSize * 0.8)} Tm`,
+                `${pdfString(line)} Tj`,
+            ));
+            ops.push('ET', 'Q');
+            break;
+        }
+        case 'image': {
+            const image = images.get(shape.id);
+            if (image) ops.push('q', `${round(box.w)} 0 0 ${round(-box.h)} ${round(box.x)} ${round(box.y + box.h)} cm`, `/${image.name} Do`, 'Q');
+            break;
+        }
+    }
+    return ops;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// Numbers the objects, writes them out and builds the cross-reference table
+const buildPdf = (sheets: { content: string; images: PdfImage[] }[]) => {
+    const objects: (string | [string, Uint8Array])[] = [];
+    const add = (object: string | [string, Uint8Array]) => objects.push(object);
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    const pageIds: number[] = [];
+    add(''); // Page tree, filled in once the pages have numbers
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    sheets.forEach(({ content, images }) => {
+        const xobjects = images.map(image => {
+            add([`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`, image.data]);
+            return `/${image.name} ${objects.length} 0 R`;
+        });
+        const stream = latin1(content);
+        add([`<< /Length ${stream.length} >>`, stream]);
+        const contentId = objects.length;
+        add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] /Contents ${contentId} 0 R /Resources << /Font << /F1 3 0 R >> /XObject << ${xobjects.join(' ')} >> >> >>`);
+        pageIds.push(objects.length);
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    const write = (chunk: Uint8Array) => { parts.push(chunk); offset += chunk.length; };
+    objects.forEach((object, i) => {
+        offsets.push(offset);
+        if (typeof object === 'string') {
+            write(latin1(`${i + 1} 0 obj\n${object}\nendobj\n`));
+        } else {
+            write(latin1(`${i + 1} 0 obj\n${object[0]}\nstream\n`));
+            write(object[1]);
+            write(latin1('\nendstream\nendobj\n'));
+        }
+    });
+    const xref = offset;
+    write(latin1(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`));
+    write(latin1(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`));
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
+
+export const pagesToPdf = async (doc: WhiteboardDoc, pages: string[]) => {
+    let imageCount = 0;
+    const sheets = await Promise.all(pages.map(async page => {
+        const objects = visibleObjects(doc, page);
+        const images = new Map<string, PdfImage>();
+        await Promise.all(objects.map(async object => {
+            if (object.kind !== 'image' || !object.src) return;
+            try {
+                images.set(object.id, await toJpeg(object.src, `Im${imageCount++}`));
+            } catch (e) {
+                console.warn('Skipping whiteboard image in PDF export', e);
+            }
+        }));
+        const bounds = pageBounds(objects.filter(o => !isEraser(o)));
+        const scale = Math.min((A4_WIDTH - SHEET_MARGIN * 2) / bounds.w, (A4_HEIGHT - SHEET_MARGIN * 2) / bounds.h);
+        const tx = (A4_WIDTH - bounds.w * scale) / 2 - bounds.x * scale;
+        const ty = (A4_HEIGHT + bounds.h * scale) / 2 + bounds.y * scale;
+        const ops = [`${round(scale)} 0 0 ${round(-scale)} ${round(tx)} ${round(ty)} cm`, '1 J 1 j'];
+        objects.forEach(object => ops.push(...(object.kind === 'stroke' ? pdfStroke(object) : pdfShape(object, images))));
+        return { content: ops.join('\n'), images: Array.from(images.values()) };
+    }));
+    return buildPdf(sheets);
+};
+
+// --- Board Files ---
+export const boardToFile = (doc: WhiteboardDoc): BoardFile => ({
+    format: BOARD_FILE_FORMAT,
+    version: BOARD_FILE_VERSION,
+    pages: orderedPages(doc).map(page => ({
+        objects: visibleObjects(doc, page.id).map(({ hidden, ...object }) => object),
+    })),
+});
+
+// The ops that add a (validated) file's pages after the last page, with their objects
+// under new IDs so loading the same file twice doesn't collide
+export const fileToOps = (doc: WhiteboardDoc, file: BoardFile, author: string) => {
+    const ops: WhiteboardOp[] = [];
+    const pageIds: string[] = [];
+    const objectIds: string[] = [];
+    let last = orderedPages(doc).pop();
+    file.pages.forEach(({ objects }) => {
+        const page = { id: crypto.randomUUID(), position: positionBetween(last) };
+        ops.push({ kind: 'page-create', page });
+        pageIds.push(page.id);
+        const copy = copyObjectOps(objects, page.id, author);
+        ops.push(...copy.ops);
+        objectIds.push(...copy.objectIds);
+        last = page;
+    });
+    return { ops, pageIds, objectIds };
+};
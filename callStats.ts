@@ -0,0 +1,113 @@
+import { ConnectionQuality, PeerStats } from './types';
+
+// --- Call Diagnostics ---
+// Each poll reads the camera call's RTCPeerConnection.getStats() report. Counters in
+// it are cumulative, so bitrate and packet loss are computed against the previous poll.
+// Field names follow the W3C webrtc-stats spec; Chrome and Firefox differ on which
+// ones they fill in, hence every value being optional.
+export const STATS_INTERVAL_MS = 2000;
+
+// Thresholds for the tile indicator; loss matters more than latency for a call
+const POOR = { rtt: 400, loss: 5 };
+const FAIR = { rtt: 200, loss: 2 };
+
+// Cumulative counters from the previous poll
+export interface StatsSample {
+    timestamp: number;
+    bytesIn: number;
+    bytesOut: number;
+    packetsLost: number;
+    packetsReceived: number;
+}
+
+export const rateQuality = ({ rtt, packetLoss }: Pick<PeerStats, 'rtt' | 'packetLoss'>): ConnectionQuality => {
+    if (rtt === undefined && packetLoss === undefined) return 'unknown';
+    if ((rtt ?? 0) > POOR.rtt || (packetLoss ?? 0) > POOR.loss) return 'poor';
+    if ((rtt ?? 0) > FAIR.rtt || (packetLoss ?? 0) > FAIR.loss) return 'fair';
+    return 'good';
+};
+
+const codecName = (report: RTCStatsReport, codecId?: string) => {
+    const codec = codecId ? report.get(codecId) : undefined;
+    return codec?.mimeType ? String(codec.mimeType).replace(/^(audio|video)\//, '') : undefined;
+};
+
+const resolution = (stat: any) => (stat?.frameWidth && stat?.frameHeight ? `${stat.frameWidth}x${stat.frameHeight}` : undefined);
+
+// The pair ICE settled on: the transport says which in Chrome, Firefox flags it
+const selectedPair = (report: RTCStatsReport) => {
+    let pair: any;
+    report.forEach(stat => {
+        if (stat.type === 'transport' && stat.selectedCandidatePairId) pair = report.get(stat.selectedCandidatePairId);
+    });
+    if (pair) return pair;
+    report.forEach(stat => {
+        if (stat.type === 'candidate-pair' && (stat.selected || (stat.nominated && stat.state === 'succeeded'))) pair = pair || stat;
+    });
+    return pair;
+};
+
+export const summarizeStats = (report: RTCStatsReport, previous?: StatsSample): { stats: PeerStats; sample: StatsSample } => {
+    const sample: StatsSample = { timestamp: 0, bytesIn: 0, bytesOut: 0, packetsLost: 0, packetsReceived: 0 };
+    let videoIn: any, videoOut: any, audioIn: any, remoteRtt: number | undefined, lossOut: number | undefined;
+    report.forEach(stat => {
+        sample.timestamp = Math.max(sample.timestamp, stat.timestamp);
+        if (stat.type === 'inbound-rtp') {
+            sample.bytesIn += stat.bytesReceived || 0;
+            sample.packetsLost += Math.max(0, stat.packetsLost || 0);
+            sample.packetsReceived += stat.packetsReceived || 0;
+            if (stat.kind === 'video') videoIn = stat;
+            if (stat.kind === 'audio') audioIn = stat;
+        } else if (stat.type === 'outbound-rtp') {
+            sample.bytesOut += stat.bytesSent || 0;
+            // Several when simulcasting; the largest layer is the one that describes us
+            if (stat.kind === 'video' && (!videoOut || (stat.frameWidth || 0) > (videoOut.frameWidth || 0))) videoOut = stat;
+        } else if (stat.type === 'remote-inbound-rtp') {
+            if (stat.roundTripTime !== undefined) remoteRtt = stat.roundTripTime * 1000;
+            // Already a ratio over the peer's last report interval, no delta needed
+            if (stat.kind === 'video' && stat.fractionLost !== undefined) lossOut = Math.max(lossOut ?? 0, stat.fractionLost * 100);
+        }
+    });
+
+    const pair = selectedPair(report);
+    const local = pair ? report.get(pair.localCandidateId) : undefined;
+    const remote = pair ? report.get(pair.remoteCandidateId) : undefined;
+    const rtt = pair?.currentRoundTripTime !== undefined ? pair.currentRoundTripTime * 1000 : remoteRtt;
+
+    const stats: PeerStats = {
+        at: Date.now(),
+        quality: 'unknown',
+        rtt: rtt !== undefined ? Math.round(rtt) : undefined,
+        jitter: audioIn?.jitter !== undefined ? Math.round(audioIn.jitter * 1000) : undefined,
+        resolutionIn: resolution(videoIn),
+        resolutionOut: resolution(videoOut),
+        fpsIn: videoIn?.framesPerSecond !== undefined ? Math.round(videoIn.framesPerSecond) : undefined,
+        fpsOut: videoOut?.framesPerSecond !== undefined ? Math.round(videoOut.framesPerSecond) : undefined,
+        codecIn: codecName(report, videoIn?.codecId) || codecName(report, audioIn?.codecId),
+        codecOut: codecName(report, videoOut?.codecId),
+        localCandidate: local?.candidateType,
+        remoteCandidate: remote?.candidateType,
+        transport: local?.protocol,
+        packetLossOut: lossOut !== undefined ? Math.round(lossOut * 10) / 10 : undefined,
+    };
+    const elapsed = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+    if (previous && elapsed > 0) {
+        stats.bitrateIn = Math.round(Math.max(0, sample.bytesIn - previous.bytesIn) * 8 / elapsed / 1000);
+        stats.bitrateOut = Math.round(Math.max(0, sample.bytesOut - previous.bytesOut) * 8 / elapsed / 1000);
+        const lost = Math.max(0, sample.packetsLost - previous.packetsLost);
+        const total = lost + Math.max(0, sample.packetsReceived - previous.packetsReceived);
+        if (total > 0) stats.packetLoss = Math.round(lost / total * 1000) / 10;
+    }
+    stats.quality = rateQuality(stats);
+    return { stats, sample };
+};
+
+// Everything needed to look into a "you're lagging" report after the fact
+export const diagnosticsDump = (protocolVersion: number, peers: {
+    id: string; displayName: string; connectionState: string; stats?: PeerStats; report?: RTCStatsReport;
+}[]) => ({
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    protocolVersion,
+    peers: peers.map(({ report, ...peer }) => ({ ...peer, report: report ? Array.from(report.values()) : [] })),
+});
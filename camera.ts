@@ -0,0 +1,51 @@
+import { CameraResolution, CameraSettings } from './types';
+
+// --- Camera Capture ---
+// Presets are ideals, not exact constraints: a webcam that can't do 1080p still opens,
+// at the closest size it supports. The frame rate is capped too, since the outgoing
+// encoding never sends more than 30 fps anyway (see videoQuality.ts).
+const STORAGE_KEY = 'cosmos-camera';
+
+export const CAMERA_RESOLUTIONS: { id: CameraResolution; width: number; height: number }[] = [
+    { id: '180p', width: 320, height: 180 },
+    { id: '360p', width: 640, height: 360 },
+    { id: '480p', width: 854, height: 480 },
+    { id: '720p', width: 1280, height: 720 },
+    { id: '1080p', width: 1920, height: 1080 },
+];
+export const CAMERA_FRAME_RATES = [15, 24, 30];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+    deviceId: '',
+    resolution: '720p',
+    frameRate: 30,
+    mirror: true,
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return { ...DEFAULT_CAMERA_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (e) {
+        return DEFAULT_CAMERA_SETTINGS;
+    }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Size and rate only, so they can also be applied to a running track
+export const cameraFormat = (settings: CameraSettings): MediaTrackConstraints => {
+    const { width, height } = CAMERA_RESOLUTIONS.find(r => r.id === settings.resolution) || CAMERA_RESOLUTIONS[3];
+    return {
+        width: { ideal: width },
+        height: { ideal: height },
+        frameRate: { ideal: settings.frameRate, max: settings.frameRate },
+    };
+};
+
+export const cameraConstraints = (settings: CameraSettings): MediaTrackConstraints => ({
+    ...cameraFormat(settings),
+    ...(settings.deviceId && { deviceId: { exact: settings.deviceId } }),
+});
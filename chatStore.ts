@@ -0,0 +1,151 @@
+import { ChatMessage, ChatActionMessage } from './types';
+
+// --- Chat History Persistence (IndexedDB) ---
+const DB_NAME = 'cosmos-chat';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+// How much history we hand to a peer that asks for a backfill
+export const MAX_CHAT_SYNC = 500;
+
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+// An action can overtake the message it targets in a mesh; it waits this long for it
+export const PENDING_ACTION_TTL_MS = 30000;
+
+type StoredChatMessage = ChatMessage & { roomId: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const store = req.result.createObjectStore(STORE, { keyPath: ['roomId', 'id'] });
+                store.createIndex('roomId', 'roomId');
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => { dbPromise = null; reject(req.error); };
+        });
+    }
+    return dbPromise;
+};
+
+// Plain code unit comparison: localeCompare depends on the user's locale, and the order
+// has to come out the same on every peer
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Total order shared by every peer: Lamport clock, then author, then id as tie-breakers
+export const compareChatMessages = (a: ChatMessage, b: ChatMessage) =>
+    a.lamport - b.lamport || compareStrings(a.sender, b.sender) || compareStrings(a.id, b.id);
+
+const toDeleted = (msg: ChatMessage, revision: number): ChatMessage => (
+    { id: msg.id, sender: msg.sender, senderName: msg.senderName, timestamp: msg.timestamp, lamport: msg.lamport, replyTo: msg.replyTo, deleted: true, revision }
+);
+
+// A backfill only vouches for the peer sending it: its edits and deletes count on its
+// own messages, and its own reactions on anyone's. Everything else it claims about a
+// message we already have is ignored, so nobody can rewrite someone else's message.
+const mergeSyncedMessage = (current: ChatMessage, synced: ChatMessage, fromId: string): ChatMessage => {
+    if (current.deleted) return current;
+    const revision = Math.max(current.revision || 0, synced.revision || 0);
+    const byAuthor = fromId === current.sender;
+    if (byAuthor && synced.deleted) return toDeleted(current, revision);
+    let next = current;
+    if (byAuthor && !synced.deleted && synced.text !== undefined && (synced.editedAt || 0) > (current.editedAt || 0)) {
+        next = { ...next, text: synced.text, editedAt: synced.editedAt, revision };
+    }
+    // Per emoji and per user, so concurrent reactions from different people all survive
+    const reactions = { ...current.reactions };
+    let changed = false;
+    new Set([...Object.keys(reactions), ...Object.keys(synced.reactions || {})]).forEach(emoji => {
+        const users = reactions[emoji] || [];
+        const had = users.includes(fromId);
+        const has = !synced.deleted && !!synced.reactions?.[emoji]?.includes(fromId);
+        if (had === has) return;
+        changed = true;
+        const list = has ? [...users, fromId] : users.filter(id => id !== fromId);
+        if (list.length) reactions[emoji] = list;
+        else delete reactions[emoji];
+    });
+    return changed ? { ...next, reactions, revision } : next;
+};
+
+// Known messages only change through a newer revision, and a deletion is never undone.
+// `fromId` is the peer a backfill came from; without it (our own store) copies are trusted.
+export const mergeChatHistory = (existing: ChatMessage[], incoming: ChatMessage[], fromId?: string) => {
+    const byId = new Map(existing.map(m => [m.id, m] as const));
+    incoming.forEach(m => {
+        const current = byId.get(m.id);
+        if (!current) { byId.set(m.id, m); return; }
+        if (fromId !== undefined) { byId.set(m.id, mergeSyncedMessage(current, m, fromId)); return; }
+        if (current.deleted || (m.revision || 0) <= (current.revision || 0)) return;
+        const url = current.attachment?.url;
+        byId.set(m.id, m.attachment && url ? { ...m, attachment: { ...m.attachment, url } } : m);
+    });
+    return Array.from(byId.values()).sort(compareChatMessages);
+};
+
+// Returns the message with `action` from `actorId` applied, or null when it doesn't apply
+export const applyChatAction = (msg: ChatMessage, actorId: string, action: ChatActionMessage): ChatMessage | null => {
+    const revision = Math.max(msg.revision || 0, action.lamport);
+    switch (action.action) {
+        case 'edit':
+            if (actorId !== msg.sender || msg.deleted || action.text === undefined) return null;
+            // Last writer wins when the author edits from two places at once
+            if ((msg.editedAt || 0) >= action.lamport) return null;
+            return { ...msg, text: action.text, editedAt: action.lamport, revision };
+        case 'delete':
+            if (actorId !== msg.sender || msg.deleted) return null;
+            return toDeleted(msg, revision);
+        case 'react':
+        case 'unreact': {
+            if (!action.emoji || msg.deleted) return null;
+            const current = msg.reactions?.[action.emoji] || [];
+            if (current.includes(actorId) === (action.action === 'react')) return null;
+            const reactions = { ...msg.reactions };
+            const next = action.action === 'react' ? [...current, actorId] : current.filter(id => id !== actorId);
+            if (next.length) reactions[action.emoji] = next;
+            else delete reactions[action.emoji];
+            return { ...msg, reactions, revision };
+        }
+    }
+};
+
+// Drops local-only fields (object URLs, system notices) before a message is stored or synced
+export const toSharedChatMessage = (msg: ChatMessage): ChatMessage => {
+    const shared: ChatMessage = { id: msg.id, sender: msg.sender, timestamp: msg.timestamp, lamport: msg.lamport };
+    if (msg.senderName !== undefined) shared.senderName = msg.senderName;
+    if (msg.text !== undefined) shared.text = msg.text;
+    if (msg.attachment) {
+        const { url, ...attachment } = msg.attachment;
+        shared.attachment = attachment;
+    }
+    if (msg.replyTo !== undefined) shared.replyTo = msg.replyTo;
+    if (msg.editedAt !== undefined) shared.editedAt = msg.editedAt;
+    if (msg.deleted) shared.deleted = true;
+    if (msg.reactions && Object.keys(msg.reactions).length) shared.reactions = msg.reactions;
+    if (msg.revision !== undefined) shared.revision = msg.revision;
+    return shared;
+};
+
+export const loadRoomHistory = async (roomId: string): Promise<ChatMessage[]> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const req = db.transaction(STORE, 'readonly').objectStore(STORE).index('roomId').getAll(roomId);
+        req.onsuccess = () => resolve((req.result as StoredChatMessage[]).map(({ roomId, ...msg }) => msg).sort(compareChatMessages));
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const saveChatMessages = async (roomId: string, messages: ChatMessage[]) => {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    messages.filter(m => !m.isSystem).forEach(m => store.put({ ...toSharedChatMessage(m), roomId }));
+    return new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
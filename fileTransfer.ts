@@ -0,0 +1,170 @@
+import { DataConnection, FileOfferMessage } from './types';
+
+// --- Chunked File Transfer ---
+// Files go to each peer separately as acknowledged chunks. The sender keeps at most
+// TRANSFER_WINDOW unacknowledged chunks in flight so the data channel never floods.
+// PeerJS splits anything above ~16KB itself, so chunks stay just under that.
+export const CHUNK_SIZE = 15 * 1024;
+export const TRANSFER_WINDOW = 16;
+export const MAX_TRANSFER_SIZE = 500 * 1024 * 1024;
+export const MAX_TRANSFER_CHUNKS = Math.ceil(MAX_TRANSFER_SIZE / CHUNK_SIZE);
+export const PROGRESS_INTERVAL_MS = 250; // Progress reaches React at most this often, not once per chunk
+const CHUNKS_PER_PART = 64; // Received chunks are folded into a Blob every ~1MB
+const HASH_SLICE = 1024 * 1024;
+
+// Sender-side bookkeeping for one file going to one peer
+export interface OutgoingTransfer {
+    transferId: string;
+    peerId: string;
+    conn: DataConnection;
+    acked: number; // Chunks the receiver confirmed, always a contiguous prefix
+    totalChunks: number;
+    next: number; // Next chunk index to send
+    // 'paused' covers both "offer sent, waiting for the first ack" and "peer dropped"
+    state: 'paused' | 'active' | 'done' | 'cancelled' | 'failed';
+    pumping: boolean;
+}
+
+// Receiver-side bookkeeping for one incoming file
+export interface IncomingTransfer {
+    offer: FileOfferMessage;
+    senderId: string;
+    parts: Blob[]; // What we have so far, in order
+    pending: ArrayBuffer[]; // Chunks not folded into `parts` yet
+    hasher: Hasher; // Fed as chunks arrive, so nothing is read back at the end
+    received: number;
+    state: 'paused' | 'active' | 'done' | 'cancelled' | 'failed';
+}
+
+export const transferKey = (transferId: string, peerId: string) => `${transferId}:${peerId}`;
+
+export const countChunks = (size: number) => Math.max(1, Math.ceil(size / CHUNK_SIZE));
+
+export const expectedChunkSize = (size: number, index: number) =>
+    Math.max(0, Math.min(CHUNK_SIZE, size - index * CHUNK_SIZE));
+
+export const readChunk = (file: Blob, index: number): Promise<ArrayBuffer> =>
+    file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).arrayBuffer();
+
+export const isFinished = (state: OutgoingTransfer['state']) => state === 'done' || state === 'cancelled' || state === 'failed';
+
+// Chunks are only ever accepted in order, so the hash can be fed as they come in
+export const receiveChunk = (t: IncomingTransfer, data: ArrayBuffer) => {
+    t.hasher.update(data);
+    t.pending.push(data);
+    t.received++;
+    if (t.pending.length >= CHUNKS_PER_PART) {
+        t.parts.push(new Blob(t.pending));
+        t.pending = [];
+    }
+};
+
+export const discardFile = (t: IncomingTransfer) => {
+    t.parts = [];
+    t.pending = [];
+};
+
+export const assembleFile = (t: IncomingTransfer) => {
+    const blob = new Blob([...t.parts, ...t.pending], { type: t.offer.fileType });
+    discardFile(t);
+    return blob;
+};
+
+// --- SHA-256 ---
+// Files are verified with SHA-256 as lowercase hex. WebCrypto can only digest a whole
+// buffer at once, which for a 500MB file means holding all of it in memory, so this is
+// a streaming implementation instead (FIPS 180-4).
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+export interface Hasher {
+    update: (data: ArrayBuffer) => void;
+    digest: () => string;
+}
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export const createHasher = (): Hasher => {
+    const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+    const w = new Uint32Array(64);
+    const block = new Uint8Array(64);
+    let filled = 0; // Bytes waiting in `block`
+    let length = 0; // Total bytes hashed
+
+    const compress = (bytes: Uint8Array, offset: number) => {
+        for (let i = 0; i < 16; i++) {
+            const j = offset + i * 4;
+            w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+        let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], k = h[7];
+        for (let i = 0; i < 64; i++) {
+            const t1 = (k + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+            const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+            k = g; g = f; f = e; e = (d + t1) | 0; d = c; c = b; b = a; a = (t1 + t2) | 0;
+        }
+        h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += k;
+    };
+
+    const update = (data: ArrayBuffer) => {
+        const bytes = new Uint8Array(data);
+        length += bytes.length;
+        let i = 0;
+        if (filled) {
+            i = Math.min(64 - filled, bytes.length);
+            block.set(bytes.subarray(0, i), filled);
+            filled += i;
+            if (filled < 64) return;
+            compress(block, 0);
+            filled = 0;
+        }
+        for (; i + 64 <= bytes.length; i += 64) compress(bytes, i);
+        block.set(bytes.subarray(i), 0);
+        filled = bytes.length - i;
+    };
+
+    const digest = () => {
+        block[filled++] = 0x80;
+        if (filled > 56) {
+            block.fill(0, filled);
+            compress(block, 0);
+            filled = 0;
+        }
+        block.fill(0, filled, 56);
+        const view = new DataView(block.buffer);
+        view.setUint32(56, Math.floor(length / 0x20000000)); // Length in bits, big-endian
+        view.setUint32(60, (length * 8) >>> 0);
+        compress(block, 0);
+        return Array.from(h).map(x => x.toString(16).padStart(8, '0')).join('');
+    };
+
+    return { update, digest };
+};
+
+// Read a slice at a time so only one is ever in memory
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const hasher = createHasher();
+    for (let offset = 0; offset < blob.size; offset += HASH_SLICE) {
+        hasher.update(await blob.slice(offset, offset + HASH_SLICE).arrayBuffer());
+    }
+    return hasher.digest();
+};
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} o`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} Ko`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} Go`;
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+
+// --- Chat Markdown ---
+// Supports **bold**, *italic*, `inline code`, ```fenced code``` and bare http(s) links.
+// Everything is built as React elements from plain strings, never as HTML, so a peer
+// can't smuggle markup or script through a message.
+
+const FENCE_REGEX = /```([\w+#-]*)[^\S\n]*\n?([\s\S]*?)```/g;
+const INLINE_REGEX = /(`[^`\n]+`)|(\*\*[^*\n]+?\*\*|__[^_\n]+?__)|(\*[^*\s][^*\n]*?\*|(?<![\w])_[^_\s][^_\n]*?_(?![\w]))|(https?:\/\/[^\s<>"'`]+)/;
+const URL_REGEX = /https?:\/\/[^\s<>"'`]+/g;
+
+// Trailing punctuation usually belongs to the sentence, not the link
+const trimUrl = (url: string) => url.replace(/[.,;:!?)\]]+$/, '');
+
+const safeHref = (url: string) => {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const findUrls = (text: string) => (text.match(URL_REGEX) || []).map(trimUrl).filter(url => safeHref(url) !== null);
+
+// --- Syntax Highlighting ---
+// Language-agnostic: enough for the C-like languages, Python and shell snippets people paste.
+const CODE_TOKEN_REGEX = /(\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|(\b(?:abstract|async|await|break|case|catch|class|const|continue|def|default|delete|do|elif|else|enum|export|extends|false|final|finally|fn|for|from|func|function|if|impl|import|in|interface|is|let|match|mut|new|None|not|null|or|and|package|pass|private|protected|pub|public|return|self|static|struct|super|switch|this|throw|true|True|False|try|type|typeof|undefined|use|var|void|while|with|yield)\b)/g;
+const CODE_TOKEN_CLASSES = ['text-slate-500 italic', 'text-emerald-300', 'text-amber-300', 'text-fuchsia-300'];
+
+const highlightCode = (code: string) => {
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    let match: RegExpExecArray | null;
+    CODE_TOKEN_REGEX.lastIndex = 0;
+    while ((match = CODE_TOKEN_REGEX.exec(code)) !== null) {
+        if (match.index > last) nodes.push(code.slice(last, match.index));
+        const group = match.slice(1).findIndex(g => g !== undefined);
+        nodes.push(<span key={match.index} className={CODE_TOKEN_CLASSES[group]}>{match[0]}</span>);
+        last = match.index + match[0].length;
+    }
+    if (last < code.length) nodes.push(code.slice(last));
+    return nodes;
+};
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let rest = text;
+    let i = 0;
+    while (rest) {
+        const match = INLINE_REGEX.exec(rest);
+        if (!match) { nodes.push(rest); break; }
+        if (match.index > 0) nodes.push(rest.slice(0, match.index));
+        const key = `${keyPrefix}-${i++}`;
+        const [token, code, bold, italic, url] = match;
+        let consumed = token.length;
+
+        if (code) {
+            nodes.push(<code key={key} className="bg-slate-950/60 text-pink-300 px-1 py-0.5 rounded font-mono text-[11px]">{code.slice(1, -1)}</code>);
+        } else if (bold) {
+            nodes.push(<strong key={key} className="font-bold text-white">{renderInline(bold.slice(2, -2), key)}</strong>);
+        } else if (italic) {
+            nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+        } else if (url) {
+            const trimmed = trimUrl(url);
+            consumed = trimmed.length;
+            const href = safeHref(trimmed);
+            nodes.push(href
+                ? <a key={key} href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-300 underline decoration-indigo-500/40 hover:text-indigo-200 break-all">{trimmed}</a>
+                : trimmed);
+        }
+        rest = rest.slice(match.index + consumed);
+    }
+    return nodes;
+};
+
+export const renderMarkdown = (text: string): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    let match: RegExpExecArray | null;
+    FENCE_REGEX.lastIndex = 0;
+    while ((match = FENCE_REGEX.exec(text)) !== null) {
+        if (match.index > last) nodes.push(...renderInline(text.slice(last, match.index), `t${last}`));
+        const [, lang, code] = match;
+        nodes.push(
+            <pre key={`c${match.index}`} className="my-2 bg-slate-950/80 border border-white/5 rounded-xl p-3 overflow-x-auto text-[11px] leading-relaxed font-mono whitespace-pre">
+                {lang && <div className="text-[9px] uppercase tracking-wider text-slate-500 mb-1 font-sans font-bold">{lang}</div>}
+                <code className="text-slate-200">{highlightCode(code.replace(/\n$/, ''))}</code>
+            </pre>
+        );
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) nodes.push(...renderInline(text.slice(last), `t${last}`));
+    return nodes;
+};
@@ -0,0 +1,46 @@
+import { RoomMember } from './types';
+
+// --- Room Membership ---
+// Every client keeps the same view of who is in the room. The leader is always the
+// earliest admitted member still in the view, so everyone agrees on it without voting.
+// Only the leader admits newcomers (and so enforces capacity); it stamps each change
+// with a higher epoch and broadcasts it, and everyone adopts the highest epoch they see.
+// When the leader drops, the next-oldest member finds itself first and takes over.
+export const ADMISSION_TIMEOUT_MS = 30000;
+
+export interface Membership {
+    epoch: number;
+    members: RoomMember[];
+}
+
+export const EMPTY_MEMBERSHIP: Membership = { epoch: 0, members: [] };
+
+export const founderMembership = (id: string): Membership => ({ epoch: 1, members: [{ id, joinedAt: 1 }] });
+
+// Plain code unit order for ties: localeCompare could elect different leaders in different locales
+const byAdmission = (a: RoomMember, b: RoomMember) => a.joinedAt - b.joinedAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+export const electLeader = (view: Membership): string | null =>
+    view.members.length ? [...view.members].sort(byAdmission)[0].id : null;
+
+export const isMember = (view: Membership, id: string) => view.members.some(m => m.id === id);
+
+export const isFull = (view: Membership, capacity: number) => view.members.length >= capacity;
+
+export const joinedAt = (view: Membership, id: string) => view.members.find(m => m.id === id)?.joinedAt;
+
+export const addMember = (view: Membership, id: string): Membership => ({
+    epoch: view.epoch + 1,
+    members: [...view.members, { id, joinedAt: Math.max(0, ...view.members.map(m => m.joinedAt)) + 1 }],
+});
+
+// Keeps the epoch: only the leader publishes a new one, see dropMember in App
+export const removeMember = (view: Membership, id: string): Membership => ({
+    epoch: view.epoch,
+    members: view.members.filter(m => m.id !== id),
+});
+
+export const diffMembers = (prev: Membership, next: Membership) => ({
+    joined: next.members.filter(m => !isMember(prev, m.id)).map(m => m.id),
+    left: prev.members.filter(m => !isMember(next, m.id)).map(m => m.id),
+});
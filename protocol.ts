@@ -0,0 +1,298 @@
+import { ChatMessage, NetworkMessage, WireMessage, BoardFile } from './types';
+import { CHUNK_SIZE, MAX_TRANSFER_SIZE, MAX_TRANSFER_CHUNKS } from './fileTransfer';
+import { CHAT_REACTIONS } from './chatStore';
+import { MAX_ROOM_NAME_LENGTH } from './rooms';
+import { MAX_STROKE_POINTS, MAX_OP_ITEMS, MAX_SYNC_ENTRIES, MAX_REPLICAS, MAX_BOARD_TEXT, MAX_BOARD_IMAGE_LENGTH, MAX_COORD } from './whiteboard';
+import { BOARD_FILE_FORMAT, BOARD_FILE_VERSION, MAX_FILE_PAGES, MAX_FILE_OBJECTS } from './boardExport';
+
+// --- Wire Protocol ---
+// Bump PROTOCOL_VERSION whenever a message shape changes in a way older clients
+// can't understand. Peers outside [MIN_PROTOCOL_VERSION, PROTOCOL_VERSION] are refused.
+export const PROTOCOL_VERSION = 15;
+export const MIN_PROTOCOL_VERSION = 15;
+export const HANDSHAKE_TIMEOUT_MS = 5000;
+
+// Hard limits on what a peer may send us
+export const MAX_CHAT_SYNC_BATCH = 50;
+export const MAX_CHAT_LENGTH = 4000;
+export const MAX_NAME_LENGTH = 64; // Display names; longer ones would get every message refused
+const MAX_AVATAR_LENGTH = 2 * 1024 * 1024;
+const MAX_QUEUE_LENGTH = 200;
+const MAX_PEER_LIST = 16;
+const MAX_REACTORS = MAX_PEER_LIST; // Per emoji and message; history outlives peer IDs, so syncs trim to it
+
+export const isCompatibleVersion = (v: number) => v >= MIN_PROTOCOL_VERSION && v <= PROTOCOL_VERSION;
+
+export const encodeMessage = (msg: NetworkMessage): WireMessage => ({ ...msg, v: PROTOCOL_VERSION });
+
+// --- Schema Helpers ---
+// A validator returns null when the value is acceptable, or a short reason otherwise.
+type Validator = (value: unknown) => string | null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str = (maxLength: number, pattern?: RegExp): Validator => value => {
+    if (typeof value !== 'string') return 'expected string';
+    if (value.length > maxLength) return `string too long (${value.length} > ${maxLength})`;
+    if (pattern && !pattern.test(value)) return 'invalid format';
+    return null;
+};
+
+const num = (min: number, max: number): Validator => value => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return 'expected number';
+    if (value < min || value > max) return `out of range [${min}, ${max}]`;
+    return null;
+};
+
+const int = (min: number, max: number): Validator => value =>
+    Number.isInteger(value) ? num(min, max)(value) : 'expected integer';
+
+const binary = (maxBytes: number): Validator => value => {
+    if (!(value instanceof ArrayBuffer)) return 'expected binary';
+    if (value.byteLength > maxBytes) return `binary too large (${value.byteLength} > ${maxBytes})`;
+    return null;
+};
+
+const bool: Validator = value => (typeof value === 'boolean' ? null : 'expected boolean');
+
+const oneOf = (...allowed: readonly (string | number)[]): Validator => value =>
+    allowed.includes(value as string | number) ? null : `unknown value "${String(value)}"`;
+
+// PeerJS serializes unset fields as null or undefined depending on the sender
+const optional = (inner: Validator): Validator => value =>
+    value === undefined || value === null ? null : inner(value);
+
+const arrayOf = (inner: Validator, maxItems: number): Validator => value => {
+    if (!Array.isArray(value)) return 'expected array';
+    if (value.length > maxItems) return `array too long (${value.length} > ${maxItems})`;
+    for (let i = 0; i < value.length; i++) {
+        const err = inner(value[i]);
+        if (err) return `[${i}] ${err}`;
+    }
+    return null;
+};
+
+const recordOf = (key: Validator, inner: Validator, maxKeys: number): Validator => value => {
+    if (!isRecord(value)) return 'expected object';
+    const keys = Object.keys(value);
+    if (keys.length > maxKeys) return `too many keys (${keys.length} > ${maxKeys})`;
+    for (const k of keys) {
+        const err = key(k) || inner(value[k]);
+        if (err) return `${k}: ${err}`;
+    }
+    return null;
+};
+
+// Picks the schema by a discriminant field, e.g. whiteboard ops by `kind`
+const variant = (tag: string, variants: Record<string, Validator>): Validator => value => {
+    if (!isRecord(value)) return 'expected object';
+    const key = String(value[tag]);
+    return Object.prototype.hasOwnProperty.call(variants, key) ? variants[key](value) : `unknown ${tag} "${key}"`;
+};
+
+// Unknown fields are rejected so nothing unexpected reaches the handlers
+const shape = (fields: Record<string, Validator>): Validator => value => {
+    if (!isRecord(value)) return 'expected object';
+    for (const key of Object.keys(value)) {
+        if (!(key in fields)) return `unexpected field "${key}"`;
+    }
+    for (const key of Object.keys(fields)) {
+        const err = fields[key](value[key]);
+        if (err) return `${key}: ${err}`;
+    }
+    return null;
+};
+
+const message = (type: NetworkMessage['type'], fields: Record<string, Validator>) =>
+    shape({ ...fields, type: oneOf(type), v: int(0, Number.MAX_SAFE_INTEGER) });
+
+// --- Field Schemas ---
+const PEER_ID = str(MAX_NAME_LENGTH + 8, /^[A-Za-z0-9_-]+$/);
+const DISPLAY_NAME = str(MAX_NAME_LENGTH);
+const COLOR = str(9, /^#[0-9a-fA-F]{3,8}$/);
+const UUID = str(36, /^[0-9a-f-]{36}$/);
+const MIME_TYPE = str(127, /^[\w.+-]+\/[\w.+-]+$/);
+const IMAGE_DATA_URL_REGEX = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/=]*$/;
+const IMAGE_DATA_URL = str(MAX_AVATAR_LENGTH, IMAGE_DATA_URL_REGEX);
+const HTTPS_URL = str(2048, /^https:\/\/[^\s"'<>]+$/);
+const ACTIVITY = oneOf('none', 'youtube', 'whiteboard');
+const LAMPORT = int(0, Number.MAX_SAFE_INTEGER);
+const TIMESTAMP = int(0, Number.MAX_SAFE_INTEGER);
+const REACTION = oneOf(...CHAT_REACTIONS);
+const ROOM_ID = str(12, /^[a-z]{3}-[a-z]{4}-[a-z]{3}$/);
+
+const CHAT_MESSAGE = shape({
+    id: UUID,
+    sender: PEER_ID,
+    senderName: optional(DISPLAY_NAME),
+    text: optional(str(MAX_CHAT_LENGTH)),
+    attachment: optional(shape({ transferId: UUID, fileName: str(255), fileType: MIME_TYPE, size: int(0, MAX_TRANSFER_SIZE) })),
+    timestamp: TIMESTAMP,
+    lamport: LAMPORT,
+    replyTo: optional(UUID),
+    editedAt: optional(LAMPORT),
+    deleted: optional(bool),
+    reactions: optional(recordOf(REACTION, arrayOf(PEER_ID, MAX_REACTORS), CHAT_REACTIONS.length)),
+    revision: optional(LAMPORT),
+});
+
+// Stored history may hold messages that no longer pass CHAT_MESSAGE; one of them would
+// get its whole chat-sync batch refused, so they're trimmed to fit or left out
+export const toSyncableChatMessages = (messages: ChatMessage[]) => messages
+    .map(m => {
+        const fitted = { ...m };
+        if (fitted.text !== undefined) fitted.text = fitted.text.slice(0, MAX_CHAT_LENGTH);
+        if (fitted.senderName !== undefined) fitted.senderName = fitted.senderName.slice(0, MAX_NAME_LENGTH);
+        // Reactors are appended as they react, so this keeps the most recent ones
+        if (fitted.reactions) {
+            fitted.reactions = Object.fromEntries(Object.entries(fitted.reactions).map(([emoji, ids]) => [emoji, ids.slice(-MAX_REACTORS)]));
+        }
+        return fitted;
+    })
+    .filter(m => !CHAT_MESSAGE(m));
+
+// Whiteboard coordinates are world units on an unbounded plane, within a sane range
+const COORD = num(-MAX_COORD, MAX_COORD);
+const STROKE_POINT = shape({ x: COORD, y: COORD, p: optional(num(0, 1)) });
+const STROKE_POINTS = arrayOf(STROKE_POINT, MAX_OP_ITEMS);
+
+// Lines and arrows keep their direction in the sign of w/h
+const BOARD_FRAME_FIELDS = { x: COORD, y: COORD, w: COORD, h: COORD };
+const BOARD_OBJECT_FIELDS = { id: UUID, author: PEER_ID, page: UUID, color: COLOR, size: num(0, 100) };
+const PAGE_POSITION = num(-Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+const BOARD_STROKE_FIELDS = { ...BOARD_OBJECT_FIELDS, kind: oneOf('stroke'), isEraser: bool };
+const BOARD_SHAPE_KINDS = ['line', 'arrow', 'rect', 'ellipse', 'text', 'note', 'image'] as const;
+const BOARD_SHAPE = shape({
+    ...BOARD_OBJECT_FIELDS, ...BOARD_FRAME_FIELDS,
+    kind: oneOf(...BOARD_SHAPE_KINDS),
+    text: optional(str(MAX_BOARD_TEXT)),
+    src: optional(str(MAX_BOARD_IMAGE_LENGTH, IMAGE_DATA_URL_REGEX)),
+});
+
+const WHITEBOARD_OP = variant('kind', {
+    'stroke-begin': shape({ kind: oneOf('stroke-begin'), stroke: shape({ ...BOARD_STROKE_FIELDS, points: STROKE_POINTS }) }),
+    'stroke-extend': shape({ kind: oneOf('stroke-extend'), strokeId: UUID, from: int(0, MAX_STROKE_POINTS), points: STROKE_POINTS }),
+    'create': shape({ kind: oneOf('create'), object: BOARD_SHAPE }),
+    'update': shape({
+        kind: oneOf('update'),
+        objectId: UUID,
+        patch: shape({ frame: optional(shape(BOARD_FRAME_FIELDS)), text: optional(str(MAX_BOARD_TEXT)) }),
+    }),
+    'hide': shape({ kind: oneOf('hide'), objectIds: arrayOf(UUID, MAX_OP_ITEMS) }),
+    'show': shape({ kind: oneOf('show'), objectIds: arrayOf(UUID, MAX_OP_ITEMS) }),
+    'page-create': shape({ kind: oneOf('page-create'), page: shape({ id: UUID, position: PAGE_POSITION }) }),
+    'page-move': shape({ kind: oneOf('page-move'), pageId: UUID, position: PAGE_POSITION }),
+});
+
+const SEQ = int(1, Number.MAX_SAFE_INTEGER);
+
+const WHITEBOARD_ENTRY = shape({
+    replica: UUID,
+    seq: SEQ,
+    clock: LAMPORT,
+    deps: recordOf(UUID, SEQ, MAX_OP_ITEMS),
+    op: WHITEBOARD_OP,
+});
+
+const QUEUE_ITEM = shape({
+    id: str(64),
+    videoId: str(11, /^[\w-]{11}$/),
+    title: str(300),
+    thumbnail: HTTPS_URL,
+    addedBy: str(MAX_NAME_LENGTH + 8),
+    addedByName: DISPLAY_NAME,
+});
+
+const ACTIVITY_DATA = shape({
+    videoId: optional(str(64)),
+    playerState: optional(int(-1, 5)),
+    currentTime: optional(num(0, 1e7)),
+    queueItem: optional(QUEUE_ITEM),
+    queue: optional(arrayOf(QUEUE_ITEM, MAX_QUEUE_LENGTH)),
+    pageId: optional(UUID),
+    cursor: optional(shape({ x: COORD, y: COORD })),
+    viewport: optional(shape(BOARD_FRAME_FIELDS)),
+});
+
+// Keyed by message type so adding a member to NetworkMessage without a schema fails to compile
+const MESSAGE_SCHEMAS: Record<NetworkMessage['type'], Validator> = {
+    'hello': message('hello', {}),
+    'status': message('status', {
+        muted: bool, deafened: bool, videoEnabled: bool, isScreenSharing: bool,
+        currentActivity: optional(ACTIVITY),
+    }),
+    'chat': message('chat', { id: UUID, lamport: LAMPORT, timestamp: TIMESTAMP, text: str(MAX_CHAT_LENGTH), sender: PEER_ID, senderName: DISPLAY_NAME, replyTo: optional(UUID) }),
+    'chat-action': message('chat-action', {
+        action: oneOf('edit', 'delete', 'react', 'unreact'), messageId: UUID, lamport: LAMPORT,
+        text: optional(str(MAX_CHAT_LENGTH)), emoji: optional(REACTION),
+    }),
+    'chat-sync-request': message('chat-sync-request', {}),
+    'chat-sync': message('chat-sync', { messages: arrayOf(CHAT_MESSAGE, MAX_CHAT_SYNC_BATCH) }),
+    'file-offer': message('file-offer', {
+        transferId: UUID, fileName: str(255), fileType: MIME_TYPE,
+        size: int(0, MAX_TRANSFER_SIZE), totalChunks: int(1, MAX_TRANSFER_CHUNKS),
+        hash: str(64, /^[0-9a-f]{64}$/), sender: PEER_ID, senderName: DISPLAY_NAME, lamport: LAMPORT, timestamp: TIMESTAMP,
+    }),
+    'file-chunk': message('file-chunk', { transferId: UUID, index: int(0, MAX_TRANSFER_CHUNKS - 1), data: binary(CHUNK_SIZE) }),
+    'file-ack': message('file-ack', { transferId: UUID, received: int(0, MAX_TRANSFER_CHUNKS) }),
+    'file-cancel': message('file-cancel', { transferId: UUID, reason: oneOf('cancelled', 'hash-mismatch') }),
+    'profile-update': message('profile-update', { avatar: optional(IMAGE_DATA_URL), displayName: optional(DISPLAY_NAME) }),
+    'activity': message('activity', {
+        action: oneOf('start', 'stop', 'sync-state', 'new-page', 'set-page', 'cursor', 'add-queue', 'remove-queue', 'play-queue', 'update-queue'),
+        activityType: oneOf('youtube', 'whiteboard'),
+        data: optional(ACTIVITY_DATA),
+    }),
+    'room-info': message('room-info', {
+        room: shape({ id: ROOM_ID, name: str(MAX_ROOM_NAME_LENGTH), capacity: int(2, MAX_PEER_LIST) }),
+        epoch: int(0, Number.MAX_SAFE_INTEGER),
+        members: arrayOf(shape({ id: PEER_ID, joinedAt: int(1, Number.MAX_SAFE_INTEGER) }), MAX_PEER_LIST),
+    }),
+    'member-leave': message('member-leave', {}),
+    'join-denied': message('join-denied', { reason: oneOf('full', 'rejected') }),
+    'video-layer': message('video-layer', { layer: oneOf('high', 'thumbnail', 'off') }),
+    'recording': message('recording', { active: bool }),
+    'whiteboard': message('whiteboard', { entries: arrayOf(WHITEBOARD_ENTRY, MAX_SYNC_ENTRIES) }),
+    'whiteboard-sync': message('whiteboard-sync', { vector: recordOf(UUID, SEQ, MAX_REPLICAS) }),
+};
+
+// A saved board holds whole objects rather than ops, with the same limits as the ops that made them
+const BOARD_FILE = shape({
+    format: oneOf(BOARD_FILE_FORMAT),
+    version: int(1, BOARD_FILE_VERSION),
+    pages: arrayOf(shape({
+        objects: arrayOf(variant('kind', {
+            stroke: shape({ ...BOARD_STROKE_FIELDS, points: arrayOf(STROKE_POINT, MAX_STROKE_POINTS) }),
+            ...Object.fromEntries(BOARD_SHAPE_KINDS.map(kind => [kind, BOARD_SHAPE])),
+        }), MAX_FILE_OBJECTS),
+    }), MAX_FILE_PAGES),
+});
+
+export type ValidationResult =
+    | { ok: true; message: NetworkMessage }
+    // `incompatibleVersion` is set when the sender speaks a protocol we don't support
+    | { ok: false; reason: string; incompatibleVersion?: number };
+
+// Runtime check for everything coming out of conn.on('data') before it is dispatched
+export const validateMessage = (raw: unknown): ValidationResult => {
+    if (!isRecord(raw)) return { ok: false, reason: 'expected object' };
+    if (typeof raw.v !== 'number') return { ok: false, reason: 'missing protocol version' };
+    if (!isCompatibleVersion(raw.v)) return { ok: false, reason: `unsupported protocol version ${raw.v}`, incompatibleVersion: raw.v };
+
+    const schema = typeof raw.type === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, raw.type)
+        ? MESSAGE_SCHEMAS[raw.type as NetworkMessage['type']]
+        : null;
+    if (!schema) return { ok: false, reason: `unknown message type "${String(raw.type)}"` };
+
+    const err = schema(raw);
+    if (err) return { ok: false, reason: `${raw.type} → ${err}` };
+
+    const { v, ...msg } = raw;
+    return { ok: true, message: msg as unknown as NetworkMessage };
+};
+
+// Same checks for a board file picked by the user (see boardExport.ts)
+export const validateBoardFile = (raw: unknown): { ok: true; file: BoardFile } | { ok: false; reason: string } => {
+    const err = BOARD_FILE(raw);
+    return err ? { ok: false, reason: err } : { ok: true, file: raw as BoardFile };
+};
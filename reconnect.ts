@@ -0,0 +1,40 @@
+import { ConnectionState, DataConnection, MediaConnection } from './types';
+
+// --- Reconnection ---
+// A dropped peer stays in the room as 'reconnecting' while we first let ICE restart,
+// then re-dial data and media with exponential backoff before giving up.
+export const ICE_RESTART_GRACE_MS = 5000;
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+// Live connection bookkeeping for one peer, kept outside React state so event handlers
+// always see the current connections
+export interface PeerLink {
+    state: ConnectionState;
+    dataConn?: DataConnection;
+    mediaCall?: MediaConnection;
+    attempts: number;
+    redialTimer: ReturnType<typeof setTimeout> | null;
+    iceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export const createLink = (partial: Partial<PeerLink> = {}): PeerLink => ({
+    state: 'connecting', attempts: 0, redialTimer: null, iceTimer: null, ...partial,
+});
+
+export const clearLinkTimers = (link: PeerLink) => {
+    if (link.redialTimer) clearTimeout(link.redialTimer);
+    if (link.iceTimer) clearTimeout(link.iceTimer);
+    link.redialTimer = null;
+    link.iceTimer = null;
+};
+
+// Exponential backoff with +/-20% jitter so both sides don't retry in lockstep
+export const reconnectDelay = (attempt: number) => {
+    const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Only one side re-dials, otherwise both ends would race with crossing calls
+export const isRedialer = (myId: string, remoteId: string) => myId < remoteId;
@@ -0,0 +1,251 @@
+// --- Session Recording ---
+// Records what this client sees and hears, locally: the tiles (and the whiteboard when
+// it's pinned) are painted onto a canvas, the remote mix and our own outgoing mic are
+// summed in the shared AudioContext, and MediaRecorder turns both into a WebM file.
+// The canvas is painted from a timer rather than requestAnimationFrame so recording
+// carries on (at the browser's reduced rate) while the tab is in the background.
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+const GAP = 8;
+const FILMSTRIP_HEIGHT = 144;
+const TIMESLICE_MS = 1000; // Chunked, so a crash mid-session doesn't lose everything already encoded
+
+export interface RecordingTile {
+    stream?: MediaStream;
+    label: string;
+    initials: string;
+    screen: boolean;
+    mirror: boolean;
+    speaking: boolean;
+}
+
+// What to paint this frame, in the same order as the room's layout
+export interface RecordingScene {
+    stage: RecordingTile[];
+    filmstrip: RecordingTile[];
+    activity?: { canvas?: HTMLCanvasElement; title: string }; // Takes the stage when pinned
+}
+
+export interface Recording {
+    recorder: MediaRecorder;
+    chunks: Blob[];
+    canvas: HTMLCanvasElement | null; // null when recording audio only
+    audio: MediaStreamAudioDestinationNode;
+    mic: MediaStreamAudioSourceNode | null;
+    micStream: MediaStream | null;
+    videos: Map<MediaStream, HTMLVideoElement>; // Off-DOM players feeding the canvas
+    painted: Set<MediaStream>; // Streams drawn this frame; players for the rest are dropped
+    timer: number;
+    startedAt: number;
+}
+
+const pickMimeType = (video: boolean) => {
+    const candidates = video
+        ? ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+        : ['audio/webm;codecs=opus', 'audio/webm'];
+    return candidates.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+export const canRecord = () => typeof MediaRecorder !== 'undefined' && !!pickMimeType(false);
+
+// `remoteMix` is summed in as is; the mic is attached separately (see setRecordingMic)
+// because it is replaced whenever the microphone restarts
+export const startRecording = (ctx: AudioContext, remoteMix: AudioNode, withVideo: boolean, paint: (rec: Recording) => void): Recording => {
+    const mimeType = pickMimeType(withVideo);
+    if (!mimeType) throw new Error('No supported WebM recording format');
+    const audio = ctx.createMediaStreamDestination();
+    remoteMix.connect(audio);
+    const stream = new MediaStream(audio.stream.getAudioTracks());
+    let canvas: HTMLCanvasElement | null = null;
+    if (withVideo) {
+        canvas = document.createElement('canvas');
+        canvas.width = WIDTH;
+        canvas.height = HEIGHT;
+        canvas.captureStream(FRAME_RATE).getVideoTracks().forEach(track => stream.addTrack(track));
+    }
+    const rec: Recording = {
+        recorder: new MediaRecorder(stream, { mimeType }),
+        chunks: [],
+        canvas,
+        audio,
+        mic: null,
+        micStream: null,
+        videos: new Map(),
+        painted: new Set(),
+        timer: 0,
+        startedAt: Date.now(),
+    };
+    rec.recorder.ondataavailable = e => { if (e.data.size) rec.chunks.push(e.data); };
+    rec.recorder.start(TIMESLICE_MS);
+    if (canvas) rec.timer = window.setInterval(() => paint(rec), 1000 / FRAME_RATE);
+    return rec;
+};
+
+export const setRecordingMic = (rec: Recording, ctx: AudioContext, stream: MediaStream | null) => {
+    if (rec.micStream === stream) return;
+    rec.mic?.disconnect();
+    rec.mic = null;
+    rec.micStream = stream;
+    // A disabled (muted) track plays silence, so mute carries over to the recording
+    if (stream?.getAudioTracks().length) {
+        rec.mic = ctx.createMediaStreamSource(stream);
+        rec.mic.connect(rec.audio);
+    }
+};
+
+export const stopRecording = (rec: Recording, remoteMix: AudioNode): Promise<Blob> => new Promise(resolve => {
+    window.clearInterval(rec.timer);
+    rec.recorder.onstop = () => {
+        remoteMix.disconnect(rec.audio);
+        rec.mic?.disconnect();
+        rec.videos.forEach(video => { video.srcObject = null; });
+        rec.videos.clear();
+        resolve(new Blob(rec.chunks, { type: rec.recorder.mimeType }));
+    };
+    rec.recorder.stop();
+});
+
+const videoFor = (rec: Recording, stream: MediaStream) => {
+    rec.painted.add(stream);
+    let video = rec.videos.get(stream);
+    if (!video) {
+        video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        video.play().catch(() => {});
+        rec.videos.set(stream, video);
+    }
+    return video;
+};
+
+// Rows and columns that keep n tiles closest to 16:9 in the given box
+const gridFor = (n: number, width: number, height: number) => {
+    let best = { cols: 1, rows: n, size: 0 };
+    for (let cols = 1; cols <= n; cols++) {
+        const rows = Math.ceil(n / cols);
+        const w = (width - GAP * (cols - 1)) / cols;
+        const h = (height - GAP * (rows - 1)) / rows;
+        const size = Math.min(w, h * 16 / 9);
+        if (size > best.size) best = { cols, rows, size };
+    }
+    return best;
+};
+
+const fit = (sw: number, sh: number, w: number, h: number, cover: boolean) => {
+    const scale = cover ? Math.max(w / sw, h / sh) : Math.min(w / sw, h / sh);
+    return { dw: sw * scale, dh: sh * scale };
+};
+
+const drawSource = (g: CanvasRenderingContext2D, source: CanvasImageSource, sw: number, sh: number, x: number, y: number, w: number, h: number, cover: boolean, mirror = false) => {
+    const { dw, dh } = fit(sw, sh, w, h, cover);
+    g.save();
+    g.beginPath();
+    g.rect(x, y, w, h);
+    g.clip();
+    g.translate(x + w / 2, y + h / 2);
+    if (mirror) g.scale(-1, 1);
+    g.drawImage(source, -dw / 2, -dh / 2, dw, dh);
+    g.restore();
+};
+
+const drawTile = (rec: Recording, g: CanvasRenderingContext2D, tile: RecordingTile, x: number, y: number, w: number, h: number) => {
+    g.fillStyle = tile.screen ? '#0f172a' : '#1e293b';
+    g.fillRect(x, y, w, h);
+    const track = tile.stream?.getVideoTracks()[0];
+    const video = tile.stream && track?.enabled && track.readyState === 'live' ? videoFor(rec, tile.stream) : null;
+    if (video && video.videoWidth) {
+        drawSource(g, video, video.videoWidth, video.videoHeight, x, y, w, h, !tile.screen, tile.mirror);
+    } else {
+        const r = Math.min(w, h) / 5;
+        g.fillStyle = '#334155';
+        g.beginPath();
+        g.arc(x + w / 2, y + h / 2, r, 0, Math.PI * 2);
+        g.fill();
+        g.fillStyle = '#ffffff';
+        g.font = `bold ${Math.round(r * 0.8)}px sans-serif`;
+        g.textAlign = 'center';
+        g.textBaseline = 'middle';
+        g.fillText(tile.initials, x + w / 2, y + h / 2);
+    }
+    const fontSize = Math.max(11, Math.min(16, h / 12));
+    g.font = `600 ${fontSize}px sans-serif`;
+    g.textAlign = 'left';
+    g.textBaseline = 'middle';
+    const labelWidth = g.measureText(tile.label).width + fontSize * 1.5;
+    g.fillStyle = 'rgba(15, 23, 42, 0.7)';
+    g.fillRect(x + 8, y + h - fontSize * 2 - 8, labelWidth, fontSize * 2);
+    g.fillStyle = '#ffffff';
+    g.fillText(tile.label, x + 8 + fontSize * 0.75, y + h - fontSize - 8);
+    if (tile.speaking) {
+        g.strokeStyle = '#6366f1';
+        g.lineWidth = 4;
+        g.strokeRect(x + 2, y + 2, w - 4, h - 4);
+    }
+};
+
+const drawGrid = (rec: Recording, g: CanvasRenderingContext2D, tiles: RecordingTile[], x: number, y: number, width: number, height: number) => {
+    if (!tiles.length) return;
+    const { cols, rows } = gridFor(tiles.length, width, height);
+    const w = (width - GAP * (cols - 1)) / cols;
+    const h = (height - GAP * (rows - 1)) / rows;
+    tiles.forEach((tile, i) => drawTile(rec, g, tile, x + (i % cols) * (w + GAP), y + Math.floor(i / cols) * (h + GAP), w, h));
+};
+
+export const paintScene = (rec: Recording, scene: RecordingScene) => {
+    const g = rec.canvas?.getContext('2d');
+    if (!g) return;
+    rec.painted.clear();
+    g.fillStyle = '#0f172a';
+    g.fillRect(0, 0, WIDTH, HEIGHT);
+
+    const strip = scene.activity ? [...scene.stage, ...scene.filmstrip] : scene.filmstrip;
+    const stageHeight = strip.length ? HEIGHT - FILMSTRIP_HEIGHT - GAP : HEIGHT;
+    if (scene.activity) {
+        const { canvas, title } = scene.activity;
+        if (canvas && canvas.width) {
+            g.fillStyle = '#ffffff';
+            g.fillRect(0, 0, WIDTH, stageHeight);
+            drawSource(g, canvas, canvas.width, canvas.height, 0, 0, WIDTH, stageHeight, false);
+        } else {
+            g.fillStyle = '#94a3b8';
+            g.font = '600 28px sans-serif';
+            g.textAlign = 'center';
+            g.textBaseline = 'middle';
+            g.fillText(title, WIDTH / 2, stageHeight / 2);
+        }
+    } else {
+        drawGrid(rec, g, scene.stage, 0, 0, WIDTH, stageHeight);
+    }
+
+    const tileWidth = FILMSTRIP_HEIGHT * 16 / 9;
+    const fits = Math.max(1, Math.floor((WIDTH + GAP) / (tileWidth + GAP)));
+    const shown = strip.slice(0, fits);
+    const left = (WIDTH - (shown.length * (tileWidth + GAP) - GAP)) / 2;
+    shown.forEach((tile, i) => drawTile(rec, g, tile, left + i * (tileWidth + GAP), HEIGHT - FILMSTRIP_HEIGHT, tileWidth, FILMSTRIP_HEIGHT));
+
+    rec.videos.forEach((video, stream) => {
+        if (rec.painted.has(stream)) return;
+        video.srcObject = null;
+        rec.videos.delete(stream);
+    });
+
+    // Elapsed time, like the camera overlay of a recorder
+    const seconds = Math.floor((Date.now() - rec.startedAt) / 1000);
+    g.fillStyle = 'rgba(239, 68, 68, 0.9)';
+    g.beginPath();
+    g.arc(24, 24, 6, 0, Math.PI * 2);
+    g.fill();
+    g.fillStyle = '#ffffff';
+    g.font = '600 14px sans-serif';
+    g.textAlign = 'left';
+    g.textBaseline = 'middle';
+    g.fillText(formatDuration(seconds), 38, 24);
+};
+
+export const formatDuration = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m}:${s.toString().padStart(2, '0')}`;
+};
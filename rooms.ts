@@ -0,0 +1,63 @@
+import { RoomInfo } from './types';
+
+// --- Rooms ---
+// A room has its own ID, independent of whoever created it. Its "anchor" is a well-known
+// PeerJS ID held by one current member (whoever claims it first): newcomers ask the anchor
+// for the room info and member list, then dial members directly. When the holder leaves,
+// another member claims the anchor so the room stays reachable.
+export const ROOM_LOOKUP_TIMEOUT_MS = 10000;
+export const ROOM_ANCHOR_RETRY_MS = 10000;
+export const MAX_ROOM_NAME_LENGTH = 60;
+
+// Shaped like "abc-defg-hij": peer IDs always end in four digits, so the two never collide
+const ROOM_ID_REGEX = /^[a-z]{3}-[a-z]{4}-[a-z]{3}$/;
+const ROOM_ID_LETTERS = 'abcdefghijkmnopqrstuvwxyz';
+
+export const isRoomId = (value: string) => ROOM_ID_REGEX.test(value);
+
+export const createRoomId = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(10));
+    const letters = Array.from(bytes, b => ROOM_ID_LETTERS[b % ROOM_ID_LETTERS.length]).join('');
+    return `${letters.slice(0, 3)}-${letters.slice(3, 7)}-${letters.slice(7)}`;
+};
+
+export const createRoom = (name: string, capacity: number): RoomInfo => ({
+    id: createRoomId(),
+    name: name.trim().slice(0, MAX_ROOM_NAME_LENGTH) || 'Salon sans nom',
+    capacity,
+});
+
+export const roomAnchorId = (roomId: string) => `cosmos-room-${roomId}`;
+
+// Keeps the signaling parameters so a LAN invite points at the same PeerServer
+export const buildInviteLink = (roomId: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('room', roomId);
+    url.hash = '';
+    return url.toString();
+};
+
+// Accepts a bare room ID or a pasted invite link
+export const parseRoomInput = (input: string): string | null => {
+    const value = input.trim();
+    if (isRoomId(value)) return value;
+    try {
+        const room = new URL(value).searchParams.get('room');
+        return room && isRoomId(room) ? room : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const readInviteRoom = () => {
+    const room = new URLSearchParams(window.location.search).get('room');
+    return room && isRoomId(room) ? room : null;
+};
+
+// Mirrors the current room in the address bar so a refresh (or a copied URL) rejoins it
+export const setRoomInUrl = (roomId: string | null) => {
+    const url = new URL(window.location.href);
+    if (roomId) url.searchParams.set('room', roomId);
+    else url.searchParams.delete('room');
+    window.history.replaceState(null, '', url.toString());
+};
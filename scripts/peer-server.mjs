@@ -0,0 +1,24 @@
+// Local PeerJS signaling server, so a team can run CosmosP2P on a LAN without the public broker.
+//   npm run signal
+//   PEER_PORT=9000 PEER_PATH=/cosmos PEER_KEY=peerjs npm run signal
+// Then point the app at it from the login screen's network settings, or with
+// ?peerHost=<ip>&peerPort=9000&peerPath=/cosmos&peerSecure=0 in the URL.
+import os from 'node:os';
+import { PeerServer } from 'peer';
+
+const port = Number(process.env.PEER_PORT || 9000);
+const path = process.env.PEER_PATH || '/cosmos';
+const key = process.env.PEER_KEY || 'peerjs';
+
+const server = PeerServer({ host: '0.0.0.0', port, path, key, allow_discovery: false }, () => {
+    const addresses = Object.values(os.networkInterfaces())
+        .flat()
+        .filter(a => a && a.family === 'IPv4' && !a.internal)
+        .map(a => a.address);
+    console.log(`Signaling server listening on port ${port}, path ${path}`);
+    ['localhost', ...addresses].forEach(host => console.log(`  peerHost=${host} peerPort=${port} peerPath=${path}`));
+});
+
+server.on('connection', client => console.log(`+ ${client.getId()}`));
+server.on('disconnect', client => console.log(`- ${client.getId()}`));
+server.on('error', err => console.error('Signaling server error', err));
@@ -0,0 +1,120 @@
+import { PeerOptions, SignalingSettings } from './types';
+
+// --- Signaling Configuration ---
+// Precedence: URL parameters > saved settings > VITE_* env > public PeerJS cloud.
+// URL parameters only last for the session: they're never saved, and the settings
+// panel edits the saved settings underneath them.
+const STORAGE_KEY = 'cosmos-signaling';
+
+export const DEFAULT_SIGNALING: SignalingSettings = {
+    mode: 'cloud',
+    host: 'localhost',
+    port: 9000,
+    path: '/cosmos',
+    secure: false,
+    key: 'peerjs',
+    iceServers: [],
+};
+
+const parseBool = (value: string | null | undefined) =>
+    value === undefined || value === null ? undefined : ['1', 'true', 'yes'].includes(value.toLowerCase());
+
+const parsePort = (value: string | null | undefined) => {
+    const port = Number(value);
+    return Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined;
+};
+
+// One server per line: "<url>[,<url>...] [username] [credential]"
+export const parseIceServers = (text: string): RTCIceServer[] =>
+    text.split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => {
+            const [urls, username, credential] = line.split(/\s+/);
+            const server: RTCIceServer = { urls: urls.split(',') };
+            if (username) server.username = username;
+            if (credential) server.credential = credential;
+            return server;
+        })
+        .filter(server => (server.urls as string[]).every(url => /^(stun|stuns|turn|turns):/.test(url)));
+
+export const formatIceServers = (servers: RTCIceServer[]) =>
+    servers.map(s => [([] as string[]).concat(s.urls).join(','), s.username, s.credential].filter(Boolean).join(' ')).join('\n');
+
+const fromEnv = (): Partial<SignalingSettings> => {
+    const env = import.meta.env;
+    const settings: Partial<SignalingSettings> = {};
+    if (env.VITE_PEER_HOST) {
+        settings.mode = 'custom';
+        settings.host = env.VITE_PEER_HOST;
+    }
+    const port = parsePort(env.VITE_PEER_PORT);
+    if (port) settings.port = port;
+    if (env.VITE_PEER_PATH) settings.path = env.VITE_PEER_PATH;
+    if (env.VITE_PEER_KEY) settings.key = env.VITE_PEER_KEY;
+    const secure = parseBool(env.VITE_PEER_SECURE);
+    if (secure !== undefined) settings.secure = secure;
+    if (env.VITE_ICE_SERVERS) settings.iceServers = parseIceServers(env.VITE_ICE_SERVERS.replace(/;/g, '\n'));
+    return settings;
+};
+
+const fromStorage = (): Partial<SignalingSettings> => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+const fromUrl = (): Partial<SignalingSettings> => {
+    const params = new URLSearchParams(window.location.search);
+    const settings: Partial<SignalingSettings> = {};
+    const host = params.get('peerHost');
+    if (host) {
+        settings.mode = 'custom';
+        settings.host = host;
+    }
+    const port = parsePort(params.get('peerPort'));
+    if (port) settings.port = port;
+    const path = params.get('peerPath');
+    if (path) settings.path = path;
+    const key = params.get('peerKey');
+    if (key) settings.key = key;
+    const secure = parseBool(params.get('peerSecure'));
+    if (secure !== undefined) settings.secure = secure;
+    const ice = params.getAll('ice');
+    if (ice.length) settings.iceServers = parseIceServers(ice.join('\n'));
+    return settings;
+};
+
+export const loadSavedSignalingSettings = (): SignalingSettings =>
+    ({ ...DEFAULT_SIGNALING, ...fromEnv(), ...fromStorage() });
+
+export const loadSignalingSettings = (): SignalingSettings =>
+    ({ ...loadSavedSignalingSettings(), ...fromUrl() });
+
+export const hasUrlSignaling = () => Object.keys(fromUrl()).length > 0;
+
+export const saveSignalingSettings = (settings: SignalingSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const toPeerOptions = (settings: SignalingSettings): PeerOptions => {
+    const options: PeerOptions = {};
+    if (settings.mode === 'custom') {
+        options.host = settings.host;
+        options.port = settings.port;
+        options.path = settings.path;
+        options.secure = settings.secure;
+        options.key = settings.key;
+    }
+    // Left unset, PeerJS falls back to its own public STUN servers
+    if (settings.iceServers.length) options.config = { iceServers: settings.iceServers };
+    return options;
+};
+
+export const describeSignaling = (settings: SignalingSettings) =>
+    settings.mode === 'cloud'
+        ? 'PeerJS Cloud'
+        : `${settings.secure ? 'wss' : 'ws'}://${settings.host}:${settings.port}${settings.path}`;
@@ -0,0 +1,65 @@
+import { RemotePeer } from './types';
+
+// --- Stage Layout ---
+// Everything the call shows is a tile: each person's camera, plus a tile per screen
+// share. A layout puts some tiles on the stage (large) and the rest in the filmstrip,
+// or everything in one grid. What goes on the stage, in order of preference: the
+// user's pins, then screen shares (the active speaker's first), then the active speaker.
+export type LayoutMode = 'auto' | 'speaker' | 'grid' | 'side-by-side';
+
+export const SPEAKER_HOLD_MS = 1500; // The active speaker keeps the stage at least this long
+
+export interface StageTile {
+    key: string; // Pin key: the peer ID ('local' for us), or screenKey() of it
+    peerId: string;
+    screen: boolean;
+}
+
+export interface StageLayout {
+    arrangement: 'grid' | 'stage';
+    stage: StageTile[]; // With 'grid', every tile
+    filmstrip: StageTile[];
+}
+
+// Pin and mixer-channel key for someone's screen share; camera tiles use the bare ID
+export const screenKey = (peerId: string) => `${peerId}:screen`;
+
+// Cameras in join order, each followed by that person's screen share if they have one
+export const listTiles = (localScreen: boolean, peers: RemotePeer[]): StageTile[] => [
+    { key: 'local', peerId: 'local', screen: false },
+    ...(localScreen ? [{ key: screenKey('local'), peerId: 'local', screen: true }] : []),
+    ...peers.flatMap(peer => [
+        { key: peer.id, peerId: peer.id, screen: false },
+        ...(peer.screenStream ? [{ key: screenKey(peer.id), peerId: peer.id, screen: true }] : []),
+    ]),
+];
+
+// 'auto' picks side-by-side for two or more shares, the speaker view for one share or
+// any pin, and the grid otherwise
+export const resolveMode = (mode: LayoutMode, tiles: StageTile[], pinned: string[]): Exclude<LayoutMode, 'auto'> => {
+    if (mode !== 'auto') return mode;
+    const shares = tiles.filter(t => t.screen).length;
+    if (shares >= 2) return 'side-by-side';
+    if (shares === 1 || tiles.some(t => pinned.includes(t.key))) return 'speaker';
+    return 'grid';
+};
+
+export const arrangeStage = ({ tiles, mode, pinned, activeSpeaker }: {
+    tiles: StageTile[]; mode: LayoutMode; pinned: string[]; activeSpeaker: string | null;
+}): StageLayout => {
+    const byKey = new Map(tiles.map(t => [t.key, t]));
+    const pins = pinned.map(key => byKey.get(key)).filter((t): t is StageTile => !!t);
+    const resolved = resolveMode(mode, tiles, pinned);
+    if (resolved === 'grid') {
+        return { arrangement: 'grid', stage: [...pins, ...tiles.filter(t => !pins.includes(t))], filmstrip: [] };
+    }
+
+    const screens = tiles.filter(t => t.screen);
+    const speakerScreen = activeSpeaker ? byKey.get(screenKey(activeSpeaker)) : undefined;
+    const speaker = activeSpeaker ? byKey.get(activeSpeaker) : undefined;
+    let stage: StageTile[];
+    if (pins.length) stage = pins;
+    else if (resolved === 'side-by-side' && screens.length >= 2) stage = screens; // Stable order, so shares don't swap sides
+    else stage = [speakerScreen || screens[0] || speaker || tiles.find(t => t.peerId !== 'local') || tiles[0]];
+    return { arrangement: 'stage', stage, filmstrip: tiles.filter(t => !stage.includes(t)) };
+};
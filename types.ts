@@ -5,21 +5,74 @@ export interface PeerOptions {
   port?: number;
   path?: string;
   secure?: boolean;
+  key?: string;
+  config?: RTCConfiguration; // ICE / TURN servers
   debug?: number;
 }
 
+// Where we register our peer ID: the public PeerJS broker or a self-hosted PeerServer
+export interface SignalingSettings {
+  mode: 'cloud' | 'custom';
+  host: string;
+  port: number;
+  path: string;
+  secure: boolean;
+  key: string;
+  iceServers: RTCIceServer[];
+}
+
+// How our microphone is captured and processed before it goes out, see audioProcessing.ts
+export interface AudioSettings {
+  noiseSuppression: boolean; // The browser's own processing, applied at capture
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+  noiseGate: boolean; // Ours, in the Web Audio graph
+  compressor: boolean;
+  inputMode: 'voice' | 'push-to-talk';
+  sensitivity: number; // 0-1 on the input meter's scale; voice mode transmits above it
+  pushToTalkKey: string; // KeyboardEvent.code
+  outputDeviceId: string; // '' is the system default
+  masterVolume: number; // 0-1, applied to everyone we hear
+}
+
+// Tells the encoder what the shared screen is: text and slides keep their resolution,
+// video keeps its frame rate
+export type ScreenHint = 'detail' | 'motion';
+
+// Which camera we open and how, see camera.ts
+export type CameraResolution = '180p' | '360p' | '480p' | '720p' | '1080p';
+
+export interface CameraSettings {
+  deviceId: string; // '' is the system default
+  resolution: CameraResolution;
+  frameRate: number;
+  mirror: boolean; // Our own preview only, peers always see the real image
+}
+
+// How our video goes out, see videoQuality.ts
+export type VideoCodec = 'auto' | 'VP8' | 'VP9' | 'AV1' | 'H264';
+
+export interface VideoSendSettings {
+  codec: VideoCodec; // 'auto' keeps the browser's own order
+  maxBitrate: number; // kbit/s per peer and per stream, 0 for no limit
+  adaptive: boolean; // Step quality down on a lossy link
+}
+
 export interface DataConnection {
   send: (data: any) => void;
   on: (event: string, cb: (data: any) => void) => void;
   close: () => void;
   peer: string;
   open: boolean;
+  peerConnection: RTCPeerConnection;
   metadata: any;
 }
 
 export interface MediaConnection {
-  answer: (stream: MediaStream) => void;
-  on: (event: string, cb: (stream: MediaStream) => void) => void;
+  answer: (stream?: MediaStream) => void; // No stream: receive only
+  on(event: 'stream', cb: (stream: MediaStream) => void): void;
+  on(event: 'iceStateChanged', cb: (state: RTCIceConnectionState) => void): void;
+  on(event: 'close' | 'error', cb: (data?: any) => void): void;
   close: () => void;
   peer: string;
   open: boolean;
@@ -33,7 +86,10 @@ export interface PeerInstance {
   connect: (id: string, options?: { metadata: any }) => DataConnection;
   call: (id: string, stream: MediaStream, options?: { metadata: any }) => MediaConnection;
   destroy: () => void;
+  reconnect: () => void;
   id: string;
+  disconnected: boolean;
+  destroyed: boolean;
 }
 
 // Attach Peer to window for TypeScript
@@ -46,6 +102,44 @@ declare global {
 }
 
 // App Logic Types
+export interface RoomInfo {
+  id: string; // e.g. "abc-defg-hij", see rooms.ts
+  name: string;
+  capacity: number;
+}
+
+export interface RoomMember {
+  id: string; // Peer ID
+  joinedAt: number; // Admission order assigned by the leader; the lowest one leads
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'gone';
+
+export type ConnectionQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+// One getStats() poll of a peer's call, summarized, see callStats.ts. Fields are
+// missing until the browser reports them.
+export interface PeerStats {
+  at: number;
+  quality: ConnectionQuality;
+  rtt?: number; // ms
+  jitter?: number; // ms, incoming audio
+  packetLoss?: number; // %, incoming, since the previous poll
+  packetLossOut?: number; // %, of our video, as the peer last reported it
+  bitrateIn?: number; // kbit/s
+  bitrateOut?: number;
+  resolutionIn?: string; // "1280x720"
+  resolutionOut?: string;
+  fpsIn?: number;
+  fpsOut?: number;
+  codecIn?: string;
+  codecOut?: string;
+  localCandidate?: string; // host, srflx, prflx or relay
+  remoteCandidate?: string;
+  transport?: string; // udp / tcp
+  sendLevel?: number; // How far we stepped our video down for this peer, 0 is full quality
+}
+
 export interface RemotePeer {
   id: string; // The Peer ID
   displayName: string;
@@ -53,6 +147,9 @@ export interface RemotePeer {
   stream?: MediaStream;
   dataConn?: DataConnection;
   mediaCall?: MediaConnection;
+  screenStream?: MediaStream; // Their screen share, on its own call next to the camera
+  screenCall?: MediaConnection;
+  isRecording?: boolean; // They're recording the session, see recorder.ts
   status: {
     muted: boolean;
     deafened: boolean;
@@ -60,20 +157,45 @@ export interface RemotePeer {
     isScreenSharing: boolean;
   };
   currentActivity: 'none' | 'youtube' | 'whiteboard'; // What are they doing?
-  volume: number; // 0-1 (Local volume control)
+  volume: number; // 0-2 (Local volume control, above 1 boosts)
   isSpeaking: boolean;
+  connectionState: ConnectionState;
+}
+
+export interface FileAttachment {
+  transferId: string;
+  fileName: string;
+  fileType: string;
+  size: number;
+  url?: string; // Object URL, set once the file is fully here and verified
 }
 
 export interface ChatMessage {
-  id: string;
+  id: string; // UUID, identical on every peer
   sender: string;
   senderName?: string; // Display Name
   text?: string;
-  image?: string; // Base64
+  attachment?: FileAttachment;
   timestamp: number;
+  lamport: number; // Logical clock used to order history the same way everywhere
+  replyTo?: string; // Id of the message this one answers
+  editedAt?: number; // Lamport time of the latest edit
+  deleted?: boolean;
+  reactions?: { [emoji: string]: string[] }; // Peer IDs per emoji
+  revision?: number; // Lamport time of the latest change, newest wins during backfill
   isSystem?: boolean;
 }
 
+// Progress of one file between us and one peer, shown under the chat attachment
+export interface TransferProgress {
+  transferId: string;
+  peerId: string;
+  direction: 'send' | 'receive';
+  done: number; // Chunks acknowledged (send) or received (receive)
+  totalChunks: number;
+  state: 'paused' | 'active' | 'done' | 'cancelled' | 'failed';
+}
+
 export interface StatusMessage {
   type: 'status';
   muted: boolean;
@@ -85,18 +207,68 @@ export interface StatusMessage {
 
 export interface TextDataMessage {
   type: 'chat';
+  id: string;
+  lamport: number;
+  timestamp: number;
   text: string;
   sender: string;
   senderName: string;
+  replyTo?: string;
+}
+
+// Changes to an existing chat line. Only the author may edit or delete.
+export interface ChatActionMessage {
+  type: 'chat-action';
+  action: 'edit' | 'delete' | 'react' | 'unreact';
+  messageId: string;
+  lamport: number;
+  text?: string; // edit
+  emoji?: string; // react / unreact
 }
 
-export interface FileDataMessage {
-  type: 'file-share';
-  file: string; // Base64
+// Chat backfill, exchanged with every peer right after the handshake
+export interface ChatSyncRequestMessage {
+  type: 'chat-sync-request';
+}
+
+export interface ChatSyncMessage {
+  type: 'chat-sync';
+  messages: ChatMessage[];
+}
+
+// File transfer: offer -> chunk/ack loop -> done. Re-sending the offer after a reconnect
+// makes the receiver ack what it already has, so the sender resumes from there.
+export interface FileOfferMessage {
+  type: 'file-offer';
+  transferId: string;
   fileName: string;
   fileType: string;
+  size: number; // Bytes
+  totalChunks: number;
+  hash: string; // SHA-256 hex of the whole file
   sender: string;
   senderName: string;
+  lamport: number;
+  timestamp: number;
+}
+
+export interface FileChunkMessage {
+  type: 'file-chunk';
+  transferId: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
+export interface FileAckMessage {
+  type: 'file-ack';
+  transferId: string;
+  received: number; // Count of contiguous chunks received so far
+}
+
+export interface FileCancelMessage {
+  type: 'file-cancel';
+  transferId: string;
+  reason: 'cancelled' | 'hash-mismatch';
 }
 
 export interface ProfileUpdateMessage {
@@ -106,14 +278,104 @@ export interface ProfileUpdateMessage {
 }
 
 // Drawing Data Types
-export interface DrawLine {
-    prevX: number;
-    prevY: number;
+export interface StrokePoint {
+    x: number; // World units, see whiteboard.ts
+    y: number;
+    p?: number; // Stylus pressure, 0..1; absent for mouse and touch
+}
+
+export type WhiteboardTool = 'select' | 'pen' | 'eraser' | 'line' | 'arrow' | 'rect' | 'ellipse' | 'text' | 'note';
+
+// Position and size in world units, like stroke points. Lines and arrows run from (x, y)
+// to (x + w, y + h), so w and h can be negative.
+export interface BoardFrame {
     x: number;
     y: number;
+    w: number;
+    h: number;
+}
+
+interface BoardObjectBase {
+    id: string;
+    author: string; // Peer ID
+    page: string; // Page ID
     color: string;
-    size: number;
+    size: number; // Line width, or text size for text and notes
+    hidden?: boolean; // Deleted, undone or cleared; kept so it can come back
+}
+
+export interface Stroke extends BoardObjectBase {
+    kind: 'stroke';
     isEraser: boolean;
+    points: StrokePoint[];
+}
+
+export interface BoardShape extends BoardObjectBase, BoardFrame {
+    kind: 'line' | 'arrow' | 'rect' | 'ellipse' | 'text' | 'note' | 'image';
+    text?: string; // Text and notes
+    src?: string; // Images, as a data URL
+}
+
+export type BoardObject = Stroke | BoardShape;
+
+// What an 'update' op may change; each field is its own last-writer-wins register
+export interface BoardPatch {
+    frame?: BoardFrame;
+    text?: string;
+}
+
+// Pages are listed by position, a fraction so moving one only rewrites that page; ties go by ID
+export interface BoardPage {
+    id: string;
+    position: number;
+    hidden?: boolean; // Deleted, kept so it can come back like objects
+}
+
+// See whiteboard.ts
+export type WhiteboardOp =
+    | { kind: 'stroke-begin'; stroke: Stroke } // Sent without `hidden`
+    | { kind: 'stroke-extend'; strokeId: string; from: number; points: StrokePoint[] }
+    | { kind: 'create'; object: BoardShape } // Sent without `hidden`
+    | { kind: 'update'; objectId: string; patch: BoardPatch }
+    | { kind: 'hide' | 'show'; objectIds: string[] } // Object or page IDs
+    | { kind: 'page-create'; page: BoardPage } // Sent without `hidden`
+    | { kind: 'page-move'; pageId: string; position: number };
+
+// Replica ID -> highest sequence number applied from it
+export type StateVector = Record<string, number>;
+
+export interface WhiteboardEntry {
+    replica: string; // Per-session ID of the client that made the op
+    seq: number; // 1, 2, 3... per replica
+    clock: number; // Lamport clock, orders concurrent hide/show
+    deps: StateVector; // Ops from other replicas that must be applied first
+    op: WhiteboardOp;
+}
+
+// A whole board saved to a file, see boardExport.ts
+export interface BoardFile {
+    format: string;
+    version: number;
+    pages: { objects: BoardObject[] }[]; // In order; loading adds them as new pages
+}
+
+// Where another peer is pointing and what they're looking at, from their 'cursor' activity messages
+export interface RemoteCursor {
+    cursor: { x: number; y: number } | null; // null once their pointer leaves the board
+    viewport: BoardFrame;
+    page: string;
+    at: number; // When we last heard from them
+}
+
+export interface WhiteboardMessage {
+  type: 'whiteboard';
+  entries: WhiteboardEntry[];
+}
+
+// Asks for every whiteboard entry the sender hasn't seen yet
+export interface WhiteboardSyncMessage {
+  type: 'whiteboard-sync';
+  vector: StateVector;
 }
 
 export interface QueueItem {
@@ -127,7 +389,7 @@ export interface QueueItem {
 
 export interface ActivityMessage {
   type: 'activity';
-  action: 'start' | 'stop' | 'sync-state' | 'draw' | 'draw-batch' | 'clear' | 'new-page' | 'set-page' | 'sync-request' | 'add-queue' | 'remove-queue' | 'play-queue' | 'update-queue';
+  action: 'start' | 'stop' | 'sync-state' | 'new-page' | 'set-page' | 'cursor' | 'add-queue' | 'remove-queue' | 'play-queue' | 'update-queue';
   activityType: 'youtube' | 'whiteboard';
   data?: {
     // Youtube
@@ -138,19 +400,57 @@ export interface ActivityMessage {
     queue?: QueueItem[];
     
     // Whiteboard
-    drawData?: DrawLine;
-    drawBatch?: DrawLine[]; // New optimization
-    pageIndex?: number;
+    pageId?: string;
+    cursor?: { x: number; y: number } | null; // World position; null once the pointer leaves the board
+    viewport?: BoardFrame; // World area the sender sees, for "follow"
   };
 }
 
-// Sent by host to new joiners so they can connect to others
-export interface PeerListMessage {
-  type: 'peer-list';
-  peers: string[]; // List of other peer IDs in the room
+// Sent by every member when a data connection opens (and by the room anchor to lookups),
+// and broadcast by the leader whenever membership changes. See membership.ts.
+export interface RoomInfoMessage {
+  type: 'room-info';
+  room: RoomInfo;
+  epoch: number; // Bumped by the leader on every membership change; the highest one wins
+  members: RoomMember[];
+}
+
+// Sent to everyone before leaving on purpose, so nobody tries to reconnect
+export interface MemberLeaveMessage {
+  type: 'member-leave';
+}
+
+export type VideoLayer = 'high' | 'thumbnail' | 'off';
+
+// Receiver -> sender: how much of the sender's camera we need, see videoQuality.ts
+export interface VideoLayerMessage {
+  type: 'video-layer';
+  layer: VideoLayer;
+}
+
+// Broadcast when we start or stop recording, and on connect, so everyone can tell
+export interface RecordingMessage {
+  type: 'recording';
+  active: boolean;
+}
+
+// The leader's answer to a newcomer it won't admit
+export interface JoinDeniedMessage {
+  type: 'join-denied';
+  reason: 'full' | 'rejected';
+}
+
+// First message sent on every data connection; the version travels in the wire envelope
+export interface HelloMessage {
+  type: 'hello';
 }
 
-export type NetworkMessage = StatusMessage | TextDataMessage | ProfileUpdateMessage | ActivityMessage | FileDataMessage | PeerListMessage;
+export type FileTransferMessage = FileOfferMessage | FileChunkMessage | FileAckMessage | FileCancelMessage;
+
+export type NetworkMessage = HelloMessage | StatusMessage | TextDataMessage | ChatActionMessage | ChatSyncRequestMessage | ChatSyncMessage | ProfileUpdateMessage | ActivityMessage | FileTransferMessage | RoomInfoMessage | MemberLeaveMessage | JoinDeniedMessage | VideoLayerMessage | RecordingMessage | WhiteboardMessage | WhiteboardSyncMessage;
+
+// What actually goes over a DataConnection: any message stamped with the sender's protocol version
+export type WireMessage = NetworkMessage & { v: number };
 
 export interface LogEntry {
   id: number;
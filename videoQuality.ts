@@ -0,0 +1,161 @@
+import { VideoCodec, VideoLayer, VideoSendSettings } from './types';
+
+// --- Adaptive Video Sending ---
+// In a mesh every client uploads its camera once per peer, so each receiver tells each
+// sender which layer it actually needs and the sender caps that peer's RTCRtpSender
+// accordingly. PeerJS adds tracks itself, so real simulcast (sendEncodings) isn't
+// available; per-peer setParameters gives the same effect on a single encoding.
+export const THUMBNAIL_THRESHOLD = 4; // Above this many members, unpinned tiles get thumbnails
+export const AUDIO_ONLY_THRESHOLD = 6; // Above this many members, only the pinned peer sends video
+const STORAGE_KEY = 'cosmos-video';
+
+const LAYER_ENCODINGS: Record<VideoLayer, RTCRtpEncodingParameters> = {
+    high: { active: true, maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+    thumbnail: { active: true, maxBitrate: 150_000, scaleResolutionDownBy: 4, maxFramerate: 15 },
+    off: { active: false },
+};
+
+// Applied on top of the layer when a peer's link is losing packets, see adaptSending
+const DEGRADATION_STEPS = [
+    { scale: 1, framerate: 30, bitrate: 1 },
+    { scale: 1.5, framerate: 24, bitrate: 0.6 },
+    { scale: 2, framerate: 15, bitrate: 0.35 },
+    { scale: 4, framerate: 10, bitrate: 0.15 },
+];
+export const MAX_SEND_LEVEL = DEGRADATION_STEPS.length - 1;
+
+// What we want to receive from one peer given how our layout shows them
+export const chooseLayer = ({ isVisible, isPinned, somethingPinned, memberCount }: {
+    isVisible: boolean; isPinned: boolean; somethingPinned: boolean; memberCount: number;
+}): VideoLayer => {
+    if (!isVisible) return 'off';
+    if (isPinned) return 'high';
+    if (memberCount > AUDIO_ONLY_THRESHOLD) return 'off';
+    if (somethingPinned || memberCount > THUMBNAIL_THRESHOLD) return 'thumbnail';
+    return 'high';
+};
+
+// The video sender may have no track yet (camera off at call time), so go through transceivers
+export const findVideoSender = (pc: RTCPeerConnection | undefined) =>
+    pc?.getTransceivers().find(t => t.sender.track?.kind === 'video' || t.receiver.track?.kind === 'video')?.sender;
+
+// The per-encoding `codec` member is newer than the DOM typings
+type Encoding = RTCRtpEncodingParameters & { codec?: RTCRtpCodec };
+
+const matchesCodec = (mimeType: string, codec: VideoCodec) => mimeType.toLowerCase() === `video/${codec.toLowerCase()}`;
+
+const bitrateCap = (settings: VideoSendSettings) => (settings.maxBitrate > 0 ? settings.maxBitrate * 1000 : Infinity);
+
+const updateEncodings = async (sender: RTCRtpSender, codec: VideoCodec, change: (encoding: Encoding) => Encoding) => {
+    const params = sender.getParameters();
+    // Chrome hands back an empty list until negotiation is done
+    if (!params.encodings?.length) return false;
+    const negotiated = codec === 'auto' ? undefined : params.codecs?.find(c => matchesCodec(c.mimeType, codec));
+    params.encodings = params.encodings.map(encoding => {
+        const next = change({ ...encoding });
+        if (negotiated) next.codec = { mimeType: negotiated.mimeType, clockRate: negotiated.clockRate, sdpFmtpLine: negotiated.sdpFmtpLine };
+        else delete next.codec;
+        return next;
+    });
+    await sender.setParameters(params);
+    return true;
+};
+
+// Camera sender for one peer: the layer they asked for, stepped down by the adaptive
+// level (see adaptSending) and capped by the user's upload limit
+export const applyLayer = (sender: RTCRtpSender, layer: VideoLayer, level: number, settings: VideoSendSettings) => {
+    const { scaleResolutionDownBy = 1, maxFramerate = 30, maxBitrate = Infinity, active } = LAYER_ENCODINGS[layer];
+    const step = DEGRADATION_STEPS[Math.min(level, MAX_SEND_LEVEL)];
+    return updateEncodings(sender, settings.codec, encoding => {
+        const next: Encoding = { ...encoding, active };
+        if (active) Object.assign(next, {
+            scaleResolutionDownBy: scaleResolutionDownBy * step.scale,
+            maxFramerate: Math.min(maxFramerate, step.framerate),
+            maxBitrate: Math.min(maxBitrate * step.bitrate, bitrateCap(settings)),
+        });
+        return next;
+    });
+};
+
+// Screen senders have no layers; only the upload limit and codec apply
+export const applyScreenSending = (sender: RTCRtpSender, settings: VideoSendSettings) => updateEncodings(sender, settings.codec, encoding => {
+    const cap = bitrateCap(settings);
+    if (cap === Infinity) delete encoding.maxBitrate;
+    else encoding.maxBitrate = cap;
+    return encoding;
+});
+
+// --- Codec & Bandwidth Settings ---
+// PeerJS creates its offers itself, right after adding the tracks, so a codec preference
+// can only go into the answers we make (setCodecPreferences). On calls we place, the
+// sender switches to the preferred codec with setParameters where the browser allows it;
+// either way nothing is renegotiated, and a codec the peer lacks is simply not used.
+export const VIDEO_CODECS: VideoCodec[] = ['VP8', 'VP9', 'AV1', 'H264'];
+export const MAX_BITRATE_PRESETS = [0, 250, 500, 1000, 1500, 3000]; // kbit/s, 0 for no limit
+
+export const DEFAULT_VIDEO_SEND_SETTINGS: VideoSendSettings = {
+    codec: 'auto',
+    maxBitrate: 0,
+    adaptive: true,
+};
+
+export const loadVideoSendSettings = (): VideoSendSettings => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return { ...DEFAULT_VIDEO_SEND_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (e) {
+        return DEFAULT_VIDEO_SEND_SETTINGS;
+    }
+};
+
+export const saveVideoSendSettings = (settings: VideoSendSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const canPreferCodec = () => typeof RTCRtpTransceiver !== 'undefined' && 'setCodecPreferences' in RTCRtpTransceiver.prototype;
+
+// Only reorders: every codec stays offered, the preferred one just comes first.
+// Call right after answering, before PeerJS gets to createAnswer.
+export const preferCodec = (pc: RTCPeerConnection | undefined, codec: VideoCodec) => {
+    const available = RTCRtpReceiver.getCapabilities?.('video')?.codecs;
+    if (!pc || codec === 'auto' || !canPreferCodec() || !available) return;
+    const ordered = [...available.filter(c => matchesCodec(c.mimeType, codec)), ...available.filter(c => !matchesCodec(c.mimeType, codec))];
+    pc.getTransceivers().forEach(t => {
+        if (t.sender.track?.kind !== 'video' && t.receiver.track?.kind !== 'video') return;
+        try {
+            t.setCodecPreferences(ordered);
+        } catch (e) {
+            console.warn('Could not set codec preferences', e);
+        }
+    });
+};
+
+// --- Adapting to the Link ---
+// The loss that matters is what a peer reports losing of our stream (RTCP receiver
+// reports, see callStats.ts). A couple of bad polls in a row take quality down a step;
+// coming back up takes a longer clean run, so a link on the edge doesn't oscillate.
+const DEGRADE_LOSS = 5; // %
+const RECOVER_LOSS = 1;
+const DEGRADE_AFTER = 2; // Consecutive stats polls
+const RECOVER_AFTER = 5;
+
+export interface SendAdaptation {
+    level: number; // Index into DEGRADATION_STEPS, 0 is full quality
+    bad: number; // Consecutive polls above DEGRADE_LOSS
+    good: number; // Consecutive polls below RECOVER_LOSS
+}
+
+export const INITIAL_ADAPTATION: SendAdaptation = { level: 0, bad: 0, good: 0 };
+
+export const adaptSending = (state: SendAdaptation, loss: number | undefined): SendAdaptation => {
+    if (loss === undefined) return state;
+    if (loss >= DEGRADE_LOSS) {
+        if (state.bad + 1 >= DEGRADE_AFTER && state.level < MAX_SEND_LEVEL) return { level: state.level + 1, bad: 0, good: 0 };
+        return { ...state, bad: state.bad + 1, good: 0 };
+    }
+    if (loss <= RECOVER_LOSS) {
+        if (state.good + 1 >= RECOVER_AFTER && state.level > 0) return { level: state.level - 1, bad: 0, good: 0 };
+        return { ...state, bad: 0, good: state.good + 1 };
+    }
+    return { ...state, bad: 0, good: 0 };
+};
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PEER_HOST?: string;
+  readonly VITE_PEER_PORT?: string;
+  readonly VITE_PEER_PATH?: string;
+  readonly VITE_PEER_KEY?: string;
+  readonly VITE_PEER_SECURE?: string;
+  readonly VITE_ICE_SERVERS?: string; // Same format as the settings screen, ';' between servers
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,601 @@
+import { BoardFrame, BoardObject, BoardPage, BoardPatch, BoardShape, Stroke, StrokePoint, WhiteboardEntry, WhiteboardOp, StateVector } from './types';
+
+// --- Whiteboard Model ---
+// The board is a replicated op log. Every client ("replica", a fresh ID per session so a
+// reload never reuses sequence numbers) numbers its own ops 1, 2, 3... and the pages are
+// whatever those ops produce. An op is only applied once everything it depends on has
+// been: the same replica's previous op, plus (for update/hide/show) the ops that created
+// the objects it touches. Ops that arrive early wait in `pending`.
+// Applying the same set of ops in any such order gives the same pages: points are written
+// at absolute offsets, and each object's visibility, frame and text are last-writer-wins
+// registers ordered by Lamport clock then replica ID. Objects are stacked by the clock of
+// the op that created them, so the z-order agrees too.
+// A peer (re)joining sends its state vector (highest seq applied per replica) and gets
+// back only the ops it lacks. Deleting an object only hides it, which is what makes undo,
+// redo and undoable clears work.
+// Pages are replicated the same way: created by an op, ordered by a last-writer-wins
+// position and deleted by hiding, so a page's objects survive a delete and its undo.
+// Everything lives in world coordinates: an unbounded plane where one unit is one CSS
+// pixel at 100% zoom, so a drawing looks the same on every screen whatever its shape.
+export const MAX_COORD = 1_000_000;
+export const MAX_STROKE_POINTS = 20000;
+export const MAX_OP_ITEMS = 500; // Points or object IDs per op
+export const MAX_SYNC_ENTRIES = 16; // Entries per message
+export const MAX_REPLICAS = 256;
+export const MAX_BOARD_TEXT = 2000;
+export const MAX_BOARD_IMAGE_LENGTH = 1_500_000; // Data URL length
+export const RESYNC_INTERVAL_MS = 2000; // Min gap between two catch-up requests to one peer
+// The page every board starts with; it exists without an op so there's always one to draw on
+export const FIRST_PAGE_ID = '00000000-0000-0000-0000-000000000000';
+const MAX_PENDING_ENTRIES = 5000;
+const MAX_IMAGE_SIDE = 1280;
+
+interface Register {
+    clock: number;
+    replica: string;
+}
+
+interface Origin extends Register {
+    seq: number;
+}
+
+export interface WhiteboardDoc {
+    pages: Map<string, Map<string, BoardObject>>; // Page ID -> its objects
+    pageList: Map<string, BoardPage>;
+    logs: Map<string, WhiteboardEntry[]>; // Per replica, index = seq - 1
+    vector: StateVector;
+    clock: number; // Lamport
+    pending: WhiteboardEntry[];
+    origins: Map<string, Origin>; // Object ID -> the op that created it
+    registers: Map<string, Register>; // `${objectId}:${field}` -> last write applied
+}
+
+// One entry on a user's own undo stack
+export type UndoEntry =
+    | { kind: 'create' | 'delete'; objectIds: string[] }
+    | { kind: 'update'; objectId: string; before: BoardPatch; after: BoardPatch }
+    | { kind: 'move-page'; pageId: string; before: number; after: number };
+
+export const createWhiteboardDoc = (): WhiteboardDoc => ({
+    pages: new Map(), pageList: new Map([[FIRST_PAGE_ID, { id: FIRST_PAGE_ID, position: 0 }]]), logs: new Map(), vector: {}, clock: 0, pending: [], origins: new Map(), registers: new Map(),
+});
+
+const pageOf = (doc: WhiteboardDoc, page: string) => {
+    if (!doc.pages.has(page)) doc.pages.set(page, new Map());
+    return doc.pages.get(page)!;
+};
+
+export const getObject = (doc: WhiteboardDoc, id: string) => {
+    for (const objects of doc.pages.values()) {
+        const object = objects.get(id);
+        if (object) return object;
+    }
+    return undefined;
+};
+
+export const getStroke = (doc: WhiteboardDoc, id: string) => {
+    const object = getObject(doc, id);
+    return object?.kind === 'stroke' ? object : undefined;
+};
+
+// Writes points at their absolute offset, so the local echo and the op agree
+const writePoints = (stroke: Stroke, from: number, points: StrokePoint[]) => {
+    if (from > stroke.points.length) return false;
+    points.forEach((p, i) => { if (from + i < MAX_STROKE_POINTS) stroke.points[from + i] = p; });
+    return true;
+};
+
+const isNewer = (a: Register, b: Register | undefined) =>
+    !b || a.clock > b.clock || (a.clock === b.clock && a.replica > b.replica);
+
+// Sets one register of an object if this write wins; returns whether it did
+const writeRegister = (doc: WhiteboardDoc, key: string, register: Register) => {
+    if (!isNewer(register, doc.registers.get(key))) return false;
+    doc.registers.set(key, register);
+    return true;
+};
+
+const addObject = (doc: WhiteboardDoc, entry: WhiteboardEntry, object: BoardObject) => {
+    if (getObject(doc, object.id)) return [];
+    pageOf(doc, object.page).set(object.id, { ...object, hidden: false });
+    doc.origins.set(object.id, { replica: entry.replica, seq: entry.seq, clock: entry.clock });
+    return [object.page];
+};
+
+// Applies a deliverable entry to the pages and returns the pages that changed
+const applyEntry = (doc: WhiteboardDoc, entry: WhiteboardEntry): string[] => {
+    const { op } = entry;
+    const register = { clock: entry.clock, replica: entry.replica };
+    switch (op.kind) {
+        case 'stroke-begin':
+            return addObject(doc, entry, { ...op.stroke, points: [...op.stroke.points] });
+        case 'stroke-extend': {
+            const stroke = getStroke(doc, op.strokeId);
+            return stroke && writePoints(stroke, op.from, op.points) ? [stroke.page] : [];
+        }
+        case 'create':
+            return addObject(doc, entry, { ...op.object });
+        case 'update': {
+            const object = getObject(doc, op.objectId);
+            if (!object || object.kind === 'stroke') return [];
+            let changed = false;
+            if (op.patch.frame && writeRegister(doc, `${object.id}:frame`, register)) {
+                Object.assign(object, op.patch.frame);
+                changed = true;
+            }
+            if (op.patch.text !== undefined && writeRegister(doc, `${object.id}:text`, register)) {
+                object.text = op.patch.text;
+                changed = true;
+            }
+            return changed ? [object.page] : [];
+        }
+        case 'hide':
+        case 'show': {
+            const pages = new Set<string>();
+            op.objectIds.forEach(id => {
+                const target = getObject(doc, id) || doc.pageList.get(id);
+                if (!target || !writeRegister(doc, `${id}:visible`, register)) return;
+                target.hidden = op.kind === 'hide';
+                pages.add('page' in target ? target.page : target.id);
+            });
+            return Array.from(pages);
+        }
+        case 'page-create': {
+            if (doc.pageList.has(op.page.id)) return [];
+            doc.pageList.set(op.page.id, { ...op.page, hidden: false });
+            doc.origins.set(op.page.id, { replica: entry.replica, seq: entry.seq, clock: entry.clock });
+            return [op.page.id];
+        }
+        case 'page-move': {
+            const page = doc.pageList.get(op.pageId);
+            if (!page || !writeRegister(doc, `${op.pageId}:position`, register)) return [];
+            page.position = op.position;
+            return [page.id];
+        }
+    }
+};
+
+const isKnown = (doc: WhiteboardDoc, entry: WhiteboardEntry) => entry.seq <= (doc.vector[entry.replica] || 0);
+
+const isReady = (doc: WhiteboardDoc, entry: WhiteboardEntry) =>
+    entry.seq === (doc.vector[entry.replica] || 0) + 1 &&
+    Object.entries(entry.deps).every(([replica, seq]) => (doc.vector[replica] || 0) >= seq);
+
+const deliver = (doc: WhiteboardDoc, entry: WhiteboardEntry) => {
+    if (!doc.logs.has(entry.replica)) doc.logs.set(entry.replica, []);
+    doc.logs.get(entry.replica)!.push(entry);
+    doc.vector[entry.replica] = entry.seq;
+    doc.clock = Math.max(doc.clock, entry.clock);
+    return applyEntry(doc, entry);
+};
+
+// Takes entries in any order (duplicates included) and applies whatever is now causally
+// ready, returning those and the pages they changed. `waiting` is true when some entries
+// are still missing a predecessor.
+export const receiveEntries = (doc: WhiteboardDoc, entries: WhiteboardEntry[]) => {
+    entries.forEach(entry => {
+        if (isKnown(doc, entry) || doc.pending.length >= MAX_PENDING_ENTRIES) return;
+        if (!doc.vector[entry.replica] && !doc.logs.has(entry.replica) && doc.logs.size >= MAX_REPLICAS) return;
+        if (doc.pending.some(p => p.replica === entry.replica && p.seq === entry.seq)) return;
+        doc.pending.push(entry);
+    });
+    const pages = new Set<string>();
+    const delivered: WhiteboardEntry[] = [];
+    let progressed = true;
+    while (progressed) {
+        progressed = false;
+        doc.pending = doc.pending.filter(entry => {
+            if (isKnown(doc, entry)) return false;
+            if (!isReady(doc, entry)) return true;
+            deliver(doc, entry).forEach(p => pages.add(p));
+            delivered.push(entry);
+            progressed = true;
+            return false;
+        });
+    }
+    return { delivered, pages: Array.from(pages), waiting: doc.pending.length > 0 };
+};
+
+// Stamps one of our own ops; it still has to go through receiveEntries like any other
+export const createEntry = (doc: WhiteboardDoc, replica: string, op: WhiteboardOp): WhiteboardEntry => {
+    const deps: StateVector = {};
+    const touched = op.kind === 'hide' || op.kind === 'show' ? op.objectIds
+        : op.kind === 'update' ? [op.objectId]
+        : op.kind === 'page-move' ? [op.pageId]
+        : [];
+    touched.forEach(id => {
+        const origin = doc.origins.get(id);
+        if (origin && origin.replica !== replica) deps[origin.replica] = Math.max(deps[origin.replica] || 0, origin.seq);
+    });
+    return { replica, seq: (doc.vector[replica] || 0) + 1, clock: doc.clock + 1, deps, op };
+};
+
+// Everything we have that a peer with `vector` hasn't seen, oldest first per replica
+export const missingEntries = (doc: WhiteboardDoc, vector: StateVector) => {
+    const missing: WhiteboardEntry[] = [];
+    doc.logs.forEach((log, replica) => missing.push(...log.slice(vector[replica] || 0)));
+    return missing;
+};
+
+// Groups entries into messages; images travel alone since one can weigh a megabyte
+export const batchEntries = (entries: WhiteboardEntry[]) => {
+    const batches: WhiteboardEntry[][] = [];
+    let current: WhiteboardEntry[] = [];
+    entries.forEach(entry => {
+        const isImage = entry.op.kind === 'create' && entry.op.object.kind === 'image';
+        if (current.length && (isImage || current.length >= MAX_SYNC_ENTRIES)) {
+            batches.push(current);
+            current = [];
+        }
+        current.push(entry);
+        if (isImage) {
+            batches.push(current);
+            current = [];
+        }
+    });
+    if (current.length) batches.push(current);
+    return batches;
+};
+
+// Code unit order; localeCompare would depend on each user's locale
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Bottom to top, in the same order on every peer
+export const visibleObjects = (doc: WhiteboardDoc, page: string) => {
+    const rank = (o: BoardObject) => doc.origins.get(o.id)!;
+    return Array.from(doc.pages.get(page)?.values() || [])
+        .filter(o => !o.hidden)
+        .sort((a, b) => rank(a).clock - rank(b).clock || compareIds(rank(a).replica, rank(b).replica));
+};
+
+export const frameOf = ({ x, y, w, h }: BoardFrame): BoardFrame => ({ x, y, w, h });
+
+export const isLineKind = (kind: BoardObject['kind']) => kind === 'line' || kind === 'arrow';
+
+// The current values of the fields a patch touches, i.e. what undoing it restores
+export const patchOf = (object: BoardShape, patch: BoardPatch): BoardPatch => ({
+    ...(patch.frame && { frame: frameOf(object) }),
+    ...(patch.text !== undefined && { text: object.text || '' }),
+});
+
+export const splitIdOps = (kind: 'hide' | 'show', ids: string[]): WhiteboardOp[] => {
+    const ops: WhiteboardOp[] = [];
+    for (let i = 0; i < ids.length; i += MAX_OP_ITEMS) ops.push({ kind, objectIds: ids.slice(i, i + MAX_OP_ITEMS) });
+    return ops;
+};
+
+// The ops that undo (or redo) an entry from someone's stack
+export const undoOps = (entry: UndoEntry, redo: boolean): WhiteboardOp[] => {
+    if (entry.kind === 'update') return [{ kind: 'update', objectId: entry.objectId, patch: redo ? entry.after : entry.before }];
+    if (entry.kind === 'move-page') return [{ kind: 'page-move', pageId: entry.pageId, position: redo ? entry.after : entry.before }];
+    return splitIdOps((entry.kind === 'create') === redo ? 'show' : 'hide', entry.objectIds);
+};
+
+// The ops that recreate objects on another page under new IDs (duplicated pages, loaded
+// files); long strokes are split like live ones
+export const copyObjectOps = (objects: BoardObject[], page: string, author: string) => {
+    const ops: WhiteboardOp[] = [];
+    const objectIds: string[] = [];
+    objects.forEach(({ hidden, ...object }) => {
+        const id = crypto.randomUUID();
+        objectIds.push(id);
+        if (object.kind !== 'stroke') {
+            ops.push({ kind: 'create', object: { ...object, id, author, page } });
+            return;
+        }
+        ops.push({ kind: 'stroke-begin', stroke: { ...object, id, author, page, points: object.points.slice(0, MAX_OP_ITEMS) } });
+        for (let from = MAX_OP_ITEMS; from < object.points.length; from += MAX_OP_ITEMS) {
+            ops.push({ kind: 'stroke-extend', strokeId: id, from, points: object.points.slice(from, from + MAX_OP_ITEMS) });
+        }
+    });
+    return { ops, objectIds };
+};
+
+// --- Pages ---
+// Never empty: two peers deleting the last two pages at once hide both, and then every
+// peer shows the first one by position again. Only the view changes, so the doc still
+// converges and an undo of either delete brings its page back as usual.
+export const orderedPages = (doc: WhiteboardDoc) => {
+    const all = Array.from(doc.pageList.values()).sort((a, b) => a.position - b.position || compareIds(a.id, b.id));
+    const visible = all.filter(page => !page.hidden);
+    return visible.length ? visible : all.slice(0, 1);
+};
+
+// A position between two neighbours (either may be missing at the ends of the list)
+export const positionBetween = (before?: BoardPage, after?: BoardPage) =>
+    before && after ? (before.position + after.position) / 2
+        : before ? before.position + 1
+        : after ? after.position - 1
+        : 0;
+
+// --- Geometry ---
+// Frames with the sign of w/h folded away
+export const normalizeFrame = ({ x, y, w, h }: BoardFrame): BoardFrame => ({
+    x: Math.min(x, x + w), y: Math.min(y, y + h), w: Math.abs(w), h: Math.abs(h),
+});
+
+export const objectBounds = (object: BoardObject): BoardFrame => {
+    if (object.kind !== 'stroke') return normalizeFrame(object);
+    const xs = object.points.map(p => p.x), ys = object.points.map(p => p.y);
+    const x = Math.min(...xs), y = Math.min(...ys);
+    return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+const clampCoord = (v: number) => Math.min(MAX_COORD, Math.max(-MAX_COORD, v));
+
+// Keeps dragged objects within what the protocol accepts
+export const clampFrame = ({ x, y, w, h }: BoardFrame): BoardFrame => ({
+    x: clampCoord(x), y: clampCoord(y), w: clampCoord(w), h: clampCoord(h),
+});
+
+// Smallest frame holding all of them, or null for none
+export const unionFrames = (frames: BoardFrame[]): BoardFrame | null => {
+    if (!frames.length) return null;
+    const x = Math.min(...frames.map(f => f.x)), y = Math.min(...frames.map(f => f.y));
+    return { x, y, w: Math.max(...frames.map(f => f.x + f.w)) - x, h: Math.max(...frames.map(f => f.y + f.h)) - y };
+};
+
+const distanceToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+    const dx = x2 - x1, dy = y2 - y1;
+    const t = dx || dy ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / (dx * dx + dy * dy))) : 0;
+    return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+};
+
+// Topmost visible object under a point; eraser strokes can't be picked
+export const hitTest = (doc: WhiteboardDoc, page: string, x: number, y: number, tolerance = 8) =>
+    visibleObjects(doc, page).reverse().find(object => {
+        if (object.kind === 'stroke' && object.isEraser) return false;
+        if (object.kind === 'line' || object.kind === 'arrow') {
+            return distanceToSegment(x, y, object.x, object.y, object.x + object.w, object.y + object.h) <= tolerance;
+        }
+        const b = objectBounds(object);
+        return x >= b.x - tolerance && x <= b.x + b.w + tolerance && y >= b.y - tolerance && y <= b.y + b.h + tolerance;
+    });
+
+// Downscales a picked or pasted image so it fits in one message
+export const loadBoardImage = (file: Blob) => new Promise<{ src: string; width: number; height: number }>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+        URL.revokeObjectURL(url);
+        const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        let src = canvas.toDataURL(file.type === 'image/png' ? 'image/png' : 'image/jpeg', 0.85);
+        for (let quality = 0.8; src.length > MAX_BOARD_IMAGE_LENGTH && quality > 0.3; quality -= 0.15) {
+            src = canvas.toDataURL('image/jpeg', quality);
+        }
+        if (src.length > MAX_BOARD_IMAGE_LENGTH) reject(new Error('image too large'));
+        else resolve({ src, width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('unreadable image')); };
+    img.src = url;
+});
+
+// --- View ---
+// Our own zoom and pan; (x, y) is the world point at the canvas' top-left corner, so a
+// screen point s (in CSS pixels from that corner) shows the world point s / zoom + (x, y).
+export interface BoardView {
+    zoom: number;
+    x: number;
+    y: number;
+}
+
+export const DEFAULT_VIEW: BoardView = { zoom: 1, x: 0, y: 0 };
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+export const clampView = ({ zoom, x, y }: BoardView): BoardView => ({
+    zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)), x: clampCoord(x), y: clampCoord(y),
+});
+
+export const toBoard = (view: BoardView, sx: number, sy: number) => ({ x: sx / view.zoom + view.x, y: sy / view.zoom + view.y });
+
+// The world area a canvas of that size shows
+export const viewportOf = (view: BoardView, width: number, height: number): BoardFrame => ({
+    x: view.x, y: view.y, w: width / view.zoom, h: height / view.zoom,
+});
+
+// The view that shows `frame` as large as possible, centred, on a canvas of that size
+// (not clamped, the minimap needs to go below MIN_ZOOM)
+export const fitFrame = (frame: BoardFrame, width: number, height: number): BoardView => {
+    const zoom = Math.min(width / Math.max(1, frame.w), height / Math.max(1, frame.h));
+    return { zoom, x: frame.x + frame.w / 2 - width / zoom / 2, y: frame.y + frame.h / 2 - height / zoom / 2 };
+};
+
+export const toScreen = (view: BoardView, { x, y, w, h }: BoardFrame): BoardFrame => ({
+    x: (x - view.x) * view.zoom, y: (y - view.y) * view.zoom, w: w * view.zoom, h: h * view.zoom,
+});
+
+// Zooms keeping the world point under screen point (sx, sy) where it is
+export const zoomAt = (view: BoardView, sx: number, sy: number, zoom: number): BoardView => {
+    const anchor = toBoard(view, sx, sy);
+    const z = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    return clampView({ zoom: z, x: anchor.x - sx / z, y: anchor.y - sy / z });
+};
+
+// --- Rendering ---
+export const NOTE_FILL = '#fef08a';
+export const NOTE_PADDING = 12;
+const imageCache = new Map<string, HTMLImageElement>();
+
+export const fontSizeFor = (size: number) => 12 + size * 1.5;
+
+// Light pressure draws down to a quarter of the chosen size, full pressure to 1.75x
+export const widthAt = (stroke: Stroke, point: StrokePoint) => point.p === undefined ? stroke.size : stroke.size * (0.25 + point.p * 1.5);
+
+// Each segment is a Catmull-Rom curve through the samples, drawn as a cubic Bézier.
+// Returns the two control points and the end point of the segment ending at points[i].
+export const curveTo = (points: StrokePoint[], i: number): [number, number, number, number, number, number] => {
+    const at = (j: number) => points[Math.max(0, Math.min(points.length - 1, j))];
+    const p0 = at(i - 2), p1 = at(i - 1), p2 = at(i), p3 = at(i + 1);
+    return [p1.x + (p2.x - p0.x) / 6, p1.y + (p2.y - p0.y) / 6, p2.x - (p3.x - p1.x) / 6, p2.y - (p3.y - p1.y) / 6, p2.x, p2.y];
+};
+
+// Drawing from `fromIndex` only adds the newest segments; the last one is refined on the
+// next full render, once the point after it is known.
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, fromIndex = 0) => {
+    const points = stroke.points;
+    if (!points.length) return;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = stroke.isEraser ? '#FFFFFF' : stroke.color;
+    ctx.globalCompositeOperation = stroke.isEraser ? 'destination-out' : 'source-over';
+    // A lone point still leaves a dot
+    if (points.length === 1) {
+        ctx.lineWidth = widthAt(stroke, points[0]);
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        ctx.lineTo(points[0].x + 0.01, points[0].y);
+        ctx.stroke();
+    }
+    // Without pressure the whole run is one path, so joins stay clean
+    const hasPressure = points.some(p => p.p !== undefined);
+    const start = Math.max(1, fromIndex);
+    ctx.lineWidth = stroke.size;
+    ctx.beginPath();
+    for (let i = start; i < points.length; i++) {
+        if (hasPressure) {
+            ctx.beginPath();
+            ctx.lineWidth = (widthAt(stroke, points[i - 1]) + widthAt(stroke, points[i])) / 2;
+        }
+        if (hasPressure || i === start) ctx.moveTo(points[i - 1].x, points[i - 1].y);
+        ctx.bezierCurveTo(...curveTo(points, i));
+        if (hasPressure) ctx.stroke();
+    }
+    if (!hasPressure) ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) =>
+    text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const next = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(next).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = next;
+            }
+        });
+        return [...lines, line];
+    });
+
+// The ends of the two barbs drawn back from an arrow's tip at (x + w, y + h)
+export const arrowHead = ({ x, y, w, h, size }: BoardShape) => {
+    const angle = Math.atan2(h, w);
+    const head = Math.max(12, size * 4);
+    return [-Math.PI / 6, Math.PI / 6].map(spread => ({ x: x + w - head * Math.cos(angle + spread), y: y + h - head * Math.sin(angle + spread) }));
+};
+
+// `onImageLoad` lets the caller repaint once an image that wasn't decoded yet is ready
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: BoardShape, onImageLoad?: () => void) => {
+    const { x, y, w, h } = shape;
+    const box = normalizeFrame(shape);
+    ctx.save();
+    ctx.lineWidth = shape.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    switch (shape.kind) {
+        case 'line':
+        case 'arrow':
+            ctx.beginPath();
+            ctx.moveTo(x, y);
+            ctx.lineTo(x + w, y + h);
+            if (shape.kind === 'arrow') {
+                arrowHead(shape).forEach(barb => {
+                    ctx.moveTo(x + w, y + h);
+                    ctx.lineTo(barb.x, barb.y);
+                });
+            }
+            ctx.stroke();
+            break;
+        case 'rect':
+            ctx.strokeRect(box.x, box.y, box.w, box.h);
+            break;
+        case 'ellipse':
+            ctx.beginPath();
+            ctx.ellipse(box.x + box.w / 2, box.y + box.h / 2, box.w / 2, box.h / 2, 0, 0, Math.PI * 2);
+            ctx.stroke();
+            break;
+        case 'note':
+        case 'text': {
+            const padding = shape.kind === 'note' ? NOTE_PADDING : 0;
+            if (shape.kind === 'note') {
+                ctx.shadowColor = 'rgba(15, 23, 42, 0.15)';
+                ctx.shadowBlur = 12;
+                ctx.shadowOffsetY = 4;
+                ctx.fillStyle = NOTE_FILL;
+                ctx.fillRect(box.x, box.y, box.w, box.h);
+                ctx.shadowColor = 'transparent';
+                ctx.fillStyle = shape.color;
+            }
+            const fontSize = fontSizeFor(shape.size);
+            ctx.font = `${fontSize}px Inter, system-ui, sans-serif`;
+            ctx.textBaseline = 'top';
+            ctx.beginPath();
+            ctx.rect(box.x, box.y, box.w, box.h);
+            ctx.clip();
+            wrapText(ctx, shape.text || '', box.w - padding * 2).forEach((line, i) =>
+                ctx.fillText(line, box.x + padding, box.y + padding + i * fontSize * 1.25));
+            break;
+        }
+        case 'image': {
+            if (!shape.src) break;
+            let img = imageCache.get(shape.id);
+            if (!img) {
+                img = new Image();
+                img.onload = () => onImageLoad?.();
+                img.src = shape.src;
+                imageCache.set(shape.id, img);
+            }
+            if (img.complete && img.naturalWidth) ctx.drawImage(img, box.x, box.y, box.w, box.h);
+            break;
+        }
+    }
+    ctx.restore();
+};
+
+export const drawObject = (ctx: CanvasRenderingContext2D, object: BoardObject, onImageLoad?: () => void) =>
+    object.kind === 'stroke' ? drawStroke(ctx, object) : drawShape(ctx, object, onImageLoad);
+
+// Leaves the view transform on the context so incremental draws land in the right place
+export const renderPage = (canvas: HTMLCanvasElement, doc: WhiteboardDoc, page: string, view: BoardView, onImageLoad?: () => void) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(view.zoom, 0, 0, view.zoom, -view.x * view.zoom, -view.y * view.zoom);
+    visibleObjects(doc, page).forEach(object => drawObject(ctx, object, onImageLoad));
+};
+
+// --- Minimap ---
+// The whole page (plus what we're looking at) squeezed into a small canvas, with our
+// viewport outlined. Returns the view it used so clicks on it can be mapped back.
+// Without a viewport it just draws the page's content, as a thumbnail.
+export const renderMinimap = (canvas: HTMLCanvasElement, doc: WhiteboardDoc, page: string, viewport?: BoardFrame) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const objects = visibleObjects(doc, page);
+    const content = unionFrames([...(viewport ? [viewport] : []), ...objects.map(objectBounds)]);
+    if (!content) return null;
+    const margin = Math.max(content.w, content.h) * 0.05;
+    const view = fitFrame({ x: content.x - margin, y: content.y - margin, w: content.w + margin * 2, h: content.h + margin * 2 }, canvas.width, canvas.height);
+    ctx.setTransform(view.zoom, 0, 0, view.zoom, -view.x * view.zoom, -view.y * view.zoom);
+    // Erasers would punch through the minimap's own background
+    objects.forEach(object => { if (object.kind !== 'stroke' || !object.isEraser) drawObject(ctx, object); });
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (!viewport) return view;
+    ctx.strokeStyle = '#6366f1';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect((viewport.x - view.x) * view.zoom, (viewport.y - view.y) * view.zoom, viewport.w * view.zoom, viewport.h * view.zoom);
+    return view;
+};